@@ -3,13 +3,27 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import Wall from "@/pages/wall";
+import Operator from "@/pages/operator";
+import Gallery from "@/pages/gallery";
+import Share from "@/pages/share";
+import Login from "@/pages/login";
+import Admin from "@/pages/admin";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/wall" component={Wall} />
+      <Route path="/gallery" component={Gallery} />
+      <Route path="/login" component={Login} />
+      <ProtectedRoute path="/operator" permission="moderate" component={Operator} />
+      <ProtectedRoute path="/admin" permission="settings" component={Admin} />
+      <Route path="/s/:token" component={Share} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +32,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,179 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Upload, Layers, X } from "lucide-react";
+import type { PublicImage, ReferenceImage, ReferenceKind } from "@shared/schema";
+import { apiUrl } from "@/config";
+import { variantUrl } from "@/lib/images";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+
+export type BaseImage =
+  | { type: "upload"; id: string; previewUrl: string }
+  | { type: "generated"; id: string; previewUrl: string };
+
+export type ReferenceSelection = {
+  base: BaseImage | null;
+  maskId: string | null;
+  promptStrength: number;
+};
+
+async function uploadReference(file: File, kind: ReferenceKind): Promise<ReferenceImage> {
+  const body = new FormData();
+  body.append("kind", kind);
+  body.append("file", file);
+
+  const res = await fetch(apiUrl("/api/references"), {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.message || "Upload failed");
+  }
+  return data.reference;
+}
+
+interface ReferencePickerProps {
+  value: ReferenceSelection;
+  onChange: (value: ReferenceSelection) => void;
+  disabled?: boolean;
+}
+
+// Image-to-image controls: upload or pick a base, optional mask, strength
+export function ReferencePicker({ value, onChange, disabled }: ReferencePickerProps) {
+  const imageInput = useRef<HTMLInputElement>(null);
+  const maskInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const { data: recentImages } = useQuery<PublicImage[]>({
+    queryKey: ["/api/images/recent"],
+  });
+
+  const handleUpload = async (file: File | undefined, kind: ReferenceKind) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const reference = await uploadReference(file, kind);
+      if (kind === "image") {
+        onChange({
+          ...value,
+          base: { type: "upload", id: reference.id, previewUrl: apiUrl(`/api/references/${reference.id}/file`) },
+        });
+      } else {
+        onChange({ ...value, maskId: reference.id });
+      }
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Could not upload the image.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="w-16 aspect-[3/4] bg-muted tech-border border-dashed flex items-center justify-center overflow-hidden shrink-0">
+          {value.base ? (
+            <img src={value.base.previewUrl} alt="Base image" className="w-full h-full object-cover" />
+          ) : (
+            <Layers className="h-4 w-4 text-accent/60" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={imageInput}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files?.[0], "image")}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={disabled || uploading}
+            onClick={() => imageInput.current?.click()}
+            className="font-mono text-xs tracking-[0.15em]"
+          >
+            <Upload className="h-3 w-3" />
+            <span className="lowercase">upload base</span>
+          </Button>
+
+          <input
+            ref={maskInput}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files?.[0], "mask")}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={disabled || uploading || !value.base}
+            onClick={() => maskInput.current?.click()}
+            className="font-mono text-xs tracking-[0.15em]"
+          >
+            <Upload className="h-3 w-3" />
+            <span className="lowercase">{value.maskId ? "replace mask" : "add mask"}</span>
+          </Button>
+
+          {(value.base || value.maskId) && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, base: null, maskId: null })}
+              className="font-mono text-xs tracking-[0.15em]"
+            >
+              <X className="h-3 w-3" />
+              <span className="lowercase">clear</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Previous generations can be used as the base directly */}
+      {recentImages && recentImages.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {recentImages.slice(0, 8).map((image) => (
+            <button
+              key={image.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, base: { type: "generated", id: image.id, previewUrl: variantUrl(image.imageUrl, "thumb") } })}
+              className={`w-10 aspect-[3/4] overflow-hidden border shrink-0 ${
+                value.base?.type === "generated" && value.base.id === image.id ? "border-primary" : "border-border"
+              }`}
+            >
+              <img src={variantUrl(image.imageUrl, "thumb")} alt={image.prompt} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-mono text-accent/70 tracking-[0.2em] shrink-0">
+          strength {value.promptStrength.toFixed(2)}
+        </span>
+        <Slider
+          min={0}
+          max={1}
+          step={0.05}
+          value={[value.promptStrength]}
+          disabled={disabled}
+          onValueChange={([promptStrength]) => onChange({ ...value, promptStrength })}
+        />
+      </div>
+    </div>
+  );
+}
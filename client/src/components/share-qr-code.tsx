@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import type { ShareLink } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ShareQrCodeProps {
+  imageId: string;
+  size: number;
+  className?: string;
+}
+
+// The server reuses a token while it has over half its life left, so a
+// refetch every few minutes keeps the code fresh without churning it
+const REFRESH_MS = 5 * 60 * 1000;
+
+// QR code a visitor scans to open the image on their phone; renders nothing
+// until the share link exists
+export function ShareQrCode({ imageId, size, className }: ShareQrCodeProps) {
+  const { data: link } = useQuery<ShareLink>({
+    queryKey: ["/api/images", imageId, "share-token"],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/images/${imageId}/share-token`);
+      const { link } = (await response.json()) as { link: ShareLink };
+      return link;
+    },
+    staleTime: REFRESH_MS,
+    refetchInterval: REFRESH_MS,
+  });
+
+  if (!link) return null;
+
+  return (
+    <div className={`bg-white p-2 flex flex-col items-center gap-1 ${className ?? ""}`}>
+      <QRCodeSVG value={link.url} size={size} level="M" />
+      <span className="font-mono text-[10px] tracking-[0.2em] text-black">SCAN TO SAVE</span>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Style } from "@shared/schema";
+
+interface StylePickerProps {
+  value: string | null;
+  onChange: (styleId: string | null) => void;
+  disabled?: boolean;
+}
+
+// Row of registered styles; renders nothing until at least one exists
+export function StylePicker({ value, onChange, disabled }: StylePickerProps) {
+  const { data: styles } = useQuery<Style[]>({
+    queryKey: ["/api/styles"],
+  });
+
+  if (!styles || styles.length === 0) return null;
+
+  const options: { id: string | null; name: string; exampleImageUrl: string | null }[] = [
+    { id: null, name: "none", exampleImageUrl: null },
+    ...styles,
+  ];
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {options.map((style) => (
+        <button
+          key={style.id ?? "none"}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(style.id)}
+          className={`flex items-center gap-2 shrink-0 border px-2 py-1 font-mono text-xs tracking-[0.15em] lowercase transition-all duration-300 disabled:opacity-40 ${
+            value === style.id ? "border-primary text-foreground" : "border-border text-accent/70"
+          }`}
+        >
+          {style.exampleImageUrl && (
+            <img src={style.exampleImageUrl} alt="" className="w-6 h-8 object-cover" />
+          )}
+          {style.name}
+        </button>
+      ))}
+    </div>
+  );
+}
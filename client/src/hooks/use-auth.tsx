@@ -0,0 +1,67 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { hasPermission, type AuthUser, type LoginRequest, type Permission } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+type AuthContextValue = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  // Whether the signed-in user's role allows this; false when signed out
+  can: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginRequest>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Tracks the signed-in user from the session cookie; signed out is a null
+// user rather than an error
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (signedIn) => queryClient.setQueryData(ME_QUERY_KEY, signedIn),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop everything fetched with the old session
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        can: (permission) => hasPermission(user?.role, permission),
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
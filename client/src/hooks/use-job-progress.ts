@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import type { JobProgressEvent } from "@shared/schema";
+import { apiUrl } from "@/config";
+
+// Remembers the in-flight job so a page refresh keeps waiting for it; other
+// pages hand a queued job to the kiosk by setting it before navigating there
+export const JOB_STORAGE_KEY = "mm29-active-job";
+
+// Subscribes to a generation job's Server-Sent Events stream. EventSource
+// reconnects on its own after network blips; polling in the page remains
+// the source of truth for the final result.
+export function useJobProgress(jobId: string | null) {
+  const [event, setEvent] = useState<JobProgressEvent | null>(null);
+
+  useEffect(() => {
+    setEvent(null);
+    if (!jobId) return;
+
+    const source = new EventSource(apiUrl(`/api/jobs/${jobId}/events`), {
+      withCredentials: true,
+    });
+    source.addEventListener("progress", (message) => {
+      const next = JSON.parse((message as MessageEvent<string>).data) as JobProgressEvent;
+      setEvent(next);
+      if (next.stage === "saved" || next.stage === "failed") {
+        source.close();
+      }
+    });
+
+    return () => source.close();
+  }, [jobId]);
+
+  return event;
+}
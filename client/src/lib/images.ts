@@ -0,0 +1,6 @@
+import type { ImageVariantName } from "@shared/schema";
+
+// Display copy of a stored image; downloads keep using the original URL
+export function variantUrl(imageUrl: string, variant: ImageVariantName): string {
+  return `${imageUrl}?variant=${variant}`;
+}
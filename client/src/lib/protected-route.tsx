@@ -0,0 +1,35 @@
+import type { ComponentType } from "react";
+import { Redirect, Route, useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import type { Permission } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import NotFound from "@/pages/not-found";
+
+type ProtectedRouteProps = {
+  path: string;
+  permission: Permission;
+  component: ComponentType;
+};
+
+// Route that sends signed-out visitors to the login page and back here
+// after, and pretends not to exist for users whose role lacks the permission
+export function ProtectedRoute({ path, permission, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading, can } = useAuth();
+  const [location] = useLocation();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-accent" />
+        </div>
+      ) : !user ? (
+        <Redirect to={`/login?next=${encodeURIComponent(location)}`} />
+      ) : can(permission) ? (
+        <Component />
+      ) : (
+        <NotFound />
+      )}
+    </Route>
+  );
+}
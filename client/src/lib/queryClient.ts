@@ -1,10 +1,41 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { apiUrl } from "../config";
 
+// Keeps the status and parsed JSON body so callers can show structured errors
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public data?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  // A field of the JSON body, if the body was an object
+  field(name: string): unknown {
+    return typeof this.data === "object" && this.data !== null
+      ? (this.data as Record<string, unknown>)[name]
+      : undefined;
+  }
+
+  // The server's own explanation, when it sent one
+  get serverMessage(): string | undefined {
+    const message = this.field("message");
+    return typeof message === "string" && message ? message : undefined;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = undefined;
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, data);
   }
 }
 
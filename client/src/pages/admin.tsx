@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { apiKeyScopes, type ApiKeyInfo, type ApiKeyScope, type CreatedApiKey, type CreateApiKeyRequest, type SpendBucket, type SpendSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+const API_KEYS_QUERY_KEY = ["/api/admin/api-keys"];
+
+// Mints a key; the secret is shown until the admin dismisses it and can't be
+// fetched again
+function NewApiKey() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["generate"]);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateApiKeyRequest) => {
+      const res = await apiRequest("POST", "/api/admin/api-keys", request);
+      return (await res.json()) as CreatedApiKey;
+    },
+    onSuccess: (result) => {
+      setCreated(result);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Create Failed",
+        description: error instanceof Error ? error.message : "Could not create the API key.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (created) {
+    return (
+      <Card className="tech-border">
+        <CardContent className="p-4 space-y-3">
+          <p className="text-xs font-mono text-accent/70 tracking-[0.15em]">
+            copy the key for {created.key.name} now; it won't be shown again
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={created.secret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => navigator.clipboard.writeText(created.secret)}
+              className="font-mono text-xs tracking-[0.15em]"
+            >
+              <Copy className="h-3 w-3" />
+              <span className="lowercase">copy</span>
+            </Button>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => setCreated(null)} className="font-mono text-xs tracking-[0.15em]">
+            <span className="lowercase">done</span>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        createMutation.mutate({ name: name.trim(), scopes, rateLimit: Number(rateLimit) || undefined });
+      }}
+    >
+      <Input placeholder="partner or script name" value={name} onChange={(e) => setName(e.target.value)} className="max-w-xs" />
+      {apiKeyScopes.map((scope) => (
+        <label key={scope} className="flex items-center gap-2 text-xs font-mono tracking-[0.15em]">
+          <Checkbox
+            checked={scopes.includes(scope)}
+            onCheckedChange={(checked) =>
+              setScopes((current) => (checked ? [...current, scope] : current.filter((value) => value !== scope)))
+            }
+          />
+          {scope}
+        </label>
+      ))}
+      <Input
+        type="number"
+        min={1}
+        value={rateLimit}
+        onChange={(e) => setRateLimit(e.target.value)}
+        className="w-24"
+        aria-label="requests per minute"
+      />
+      <span className="text-xs font-mono text-accent/70">/ min</span>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+        className="font-mono text-xs tracking-[0.15em]"
+      >
+        <KeyRound className="h-3 w-3" />
+        <span className="lowercase">create key</span>
+      </Button>
+    </form>
+  );
+}
+
+function ApiKeys() {
+  const { toast } = useToast();
+  const { data: keys } = useQuery<ApiKeyInfo[]>({ queryKey: API_KEYS_QUERY_KEY });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (key: ApiKeyInfo) => {
+      await apiRequest("POST", `/api/admin/api-keys/${key.id}/revoke`, {});
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY }),
+    onError: (error) => {
+      toast({
+        title: "Revoke Failed",
+        description: error instanceof Error ? error.message : "Could not revoke the API key.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-sm font-mono text-accent tracking-[0.2em]">API KEYS</h2>
+      <NewApiKey />
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>name</TableHead>
+            <TableHead>key</TableHead>
+            <TableHead>scopes</TableHead>
+            <TableHead className="text-right">limit / min</TableHead>
+            <TableHead className="text-right">requests</TableHead>
+            <TableHead className="text-right">images</TableHead>
+            <TableHead>last used</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {keys?.map((key) => (
+            <TableRow key={key.id} className={key.revokedAt ? "opacity-50" : undefined}>
+              <TableCell>{key.name}</TableCell>
+              <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+              <TableCell className="font-mono text-xs">{key.scopes.join(", ")}</TableCell>
+              <TableCell className="text-right font-mono text-xs">{key.rateLimit}</TableCell>
+              <TableCell className="text-right font-mono text-xs">{key.requestCount}</TableCell>
+              <TableCell className="text-right font-mono text-xs">{key.imageCount}</TableCell>
+              <TableCell className="font-mono text-xs">
+                {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "never"}
+              </TableCell>
+              <TableCell className="text-right">
+                {key.revokedAt ? (
+                  <span className="text-xs font-mono text-accent/70">revoked by {key.revokedBy}</span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Revoke the key for ${key.name}? Scripts using it stop working at once.`)) {
+                        revokeMutation.mutate(key);
+                      }
+                    }}
+                    className="font-mono text-xs tracking-[0.15em]"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    <span className="lowercase">revoke</span>
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {keys?.length === 0 && <p className="text-xs font-mono text-accent/70 tracking-[0.2em]">no keys yet</p>}
+    </section>
+  );
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatLimit(spent: number, limit: number | null): string {
+  return limit === null ? `${formatUsd(spent)} (no limit)` : `${formatUsd(spent)} of ${formatUsd(limit)}`;
+}
+
+function SpendTable({ label, rows }: { label: string; rows: (SpendBucket & { label: string })[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">jobs</TableHead>
+          <TableHead className="text-right">cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.label}>
+            <TableCell className="font-mono text-xs">{row.label}</TableCell>
+            <TableCell className="text-right font-mono text-xs">{row.jobs}</TableCell>
+            <TableCell className="text-right font-mono text-xs">{formatUsd(row.cost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Estimated provider spend; limits are changed through PATCH /api/admin/budget
+function Spend() {
+  const { data: spend } = useQuery<SpendSummary>({ queryKey: ["/api/admin/spend"], refetchInterval: 60000 });
+  if (!spend) return null;
+
+  const { budget } = spend;
+  return (
+    <section className="space-y-4">
+      <h2 className="text-sm font-mono text-accent tracking-[0.2em]">SPEND</h2>
+      <div className="flex flex-wrap gap-6 text-xs font-mono tracking-[0.15em]">
+        <span>today {formatLimit(budget.spentToday, budget.dailyLimit)}</span>
+        <span>event {formatLimit(budget.spentEvent, budget.eventLimit)}</span>
+        <span>all time {formatUsd(spend.total)}</span>
+        {budget.exceeded && <span className="text-primary">paused: {budget.exceeded} budget spent</span>}
+      </div>
+      <div className="grid gap-6 md:grid-cols-3">
+        <SpendTable label="day" rows={spend.byDay.map((row) => ({ ...row, label: row.day }))} />
+        <SpendTable label="kiosk" rows={spend.byKiosk.map((row) => ({ ...row, label: row.kioskId ?? "other" }))} />
+        <SpendTable
+          label="api key"
+          rows={spend.byApiKey.map((row) => ({ ...row, label: row.apiKeyId ? row.name ?? row.apiKeyId : "none" }))}
+        />
+      </div>
+    </section>
+  );
+}
+
+// Settings only admins may change
+export default function Admin() {
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-sm font-mono text-accent tracking-[0.2em]">ADMIN</h1>
+          <Button asChild variant="ghost" size="sm" className="font-mono text-xs tracking-[0.15em]">
+            <Link href="/operator">
+              <span className="lowercase">moderation</span>
+            </Link>
+          </Button>
+        </div>
+        <Spend />
+        <ApiKeys />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, Search, Shuffle } from "lucide-react";
+import type { PublicImage, PublicJob, ImagePage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { variantUrl } from "@/lib/images";
+import { JOB_STORAGE_KEY } from "@/hooks/use-job-progress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL_MODELS = "all";
+
+type GalleryFilters = {
+  q: string;
+  model: string;
+  from: string;
+  to: string;
+};
+
+function searchParams(filters: GalleryFilters, cursor: string | null): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (filters.q) params.set("q", filters.q);
+  if (filters.model !== ALL_MODELS) params.set("model", filters.model);
+  // Date inputs are local calendar days; the range includes all of "to"
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+function ParamRow({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined || value === "") return null;
+  return (
+    <div className="flex justify-between gap-4 text-xs font-mono">
+      <span className="text-accent/70 tracking-[0.15em]">{label}</span>
+      <span className="text-right break-all">{String(value)}</span>
+    </div>
+  );
+}
+
+// Lightbox for one image with its stored generation parameters
+function ImageDetail({ image, onClose }: { image: PublicImage | null; onClose: () => void }) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  // Remix hands the queued job to the kiosk page, which picks it up from storage
+  const remixMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/images/${id}/remix`, {});
+      return response.json() as Promise<{ success: boolean; job: PublicJob }>;
+    },
+    onSuccess: ({ job }) => {
+      sessionStorage.setItem(JOB_STORAGE_KEY, job.id);
+      navigate("/");
+    },
+    onError: (error) => {
+      toast({
+        title: "Remix Failed",
+        description: error instanceof Error ? error.message : "Could not queue the remix.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const params = image?.generationParams;
+
+  return (
+    <Dialog open={!!image} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        {image && (
+          <div className="grid md:grid-cols-2 gap-6">
+            <picture>
+              <source type="image/avif" srcSet={variantUrl(image.imageUrl, "web-avif")} />
+              <img src={variantUrl(image.imageUrl, "web")} alt={image.prompt} className="w-full aspect-[3/4] object-cover" />
+            </picture>
+            <div className="space-y-4">
+              <div>
+                <DialogTitle className="text-base leading-snug">{image.prompt}</DialogTitle>
+                <DialogDescription className="text-xs font-mono">
+                  {new Date(image.generatedAt).toLocaleString()}
+                </DialogDescription>
+              </div>
+              <div className="space-y-1">
+                <ParamRow label="model" value={image.modelUsed} />
+                <ParamRow label="version" value={params?.modelVersion} />
+                <ParamRow label="seed" value={params?.seed} />
+                <ParamRow label="mode" value={params?.mode} />
+                <ParamRow label="aspect" value={params?.aspectRatio ?? image.resolution} />
+                <ParamRow label="steps" value={params?.numInferenceSteps} />
+                <ParamRow label="guidance" value={params?.guidanceScale} />
+                <ParamRow label="strength" value={params?.promptStrength} />
+                <ParamRow label="lora" value={params?.loraWeights} />
+                <ParamRow label="lora scale" value={params?.loraScale} />
+                <ParamRow label="duration" value={image.durationMs && `${(image.durationMs / 1000).toFixed(1)}s`} />
+                <ParamRow label="prediction" value={image.predictionId} />
+              </div>
+              <Button
+                onClick={() => remixMutation.mutate(image.id)}
+                disabled={remixMutation.isPending}
+                className="font-mono tracking-[0.15em]"
+              >
+                <Shuffle className="h-4 w-4" />
+                <span className="lowercase">remix</span>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Infinite-scrolling archive of approved images with search and filters
+export default function Gallery() {
+  const [searchText, setSearchText] = useState("");
+  const [filters, setFilters] = useState<GalleryFilters>({ q: "", model: ALL_MODELS, from: "", to: "" });
+  const [selected, setSelected] = useState<PublicImage | null>(null);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  // Search as the visitor types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters((current) => ({ ...current, q: searchText.trim() })), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const { data: models } = useQuery<string[]>({
+    queryKey: ["/api/images/models"],
+  });
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ["/api/images", filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", `/api/images?${searchParams(filters, pageParam)}`);
+      return response.json() as Promise<ImagePage<PublicImage>>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // Load the next page when the bottom of the grid scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && hasNextPage && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "400px" });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const images = data?.pages.flatMap((page) => page.images) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-accent/60" />
+            <Input
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="search prompts"
+              className="pl-9"
+            />
+          </div>
+          <Select value={filters.model} onValueChange={(model) => setFilters({ ...filters, model })}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_MODELS}>all models</SelectItem>
+              {models?.map((model) => (
+                <SelectItem key={model} value={model}>{model}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="w-40"
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="w-40"
+            aria-label="To date"
+          />
+        </div>
+
+        {!isLoading && images.length === 0 && (
+          <p className="text-xs font-mono text-accent/70 tracking-[0.2em]">no images match</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+          {images.map((image) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setSelected(image)}
+              className="aspect-[3/4] overflow-hidden border border-border hover:border-primary"
+            >
+              <img src={variantUrl(image.imageUrl, "thumb")} alt={image.prompt} loading="lazy" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+
+        <div ref={sentinel} className="h-8 flex items-center justify-center">
+          {(isLoading || isFetchingNextPage) && <Loader2 className="h-4 w-4 animate-spin text-accent" />}
+        </div>
+      </div>
+
+      <ImageDetail image={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
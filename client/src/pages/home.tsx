@@ -1,22 +1,67 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Wand2, Download, Share2, Folder, Image, CheckCircle, AlertCircle, Loader2, Home as HomeIcon } from "lucide-react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { generateImageRequestSchema, type GeneratedImage, type GenerateImageRequest } from "@shared/schema";
+import { Wand2, Download, Share2, Shuffle, Folder, Image, CheckCircle, AlertCircle, Loader2, Home as HomeIcon } from "lucide-react";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import { generateImageRequestSchema, type PublicImage, type GenerateImageRequest, type GenerationJobStatus, type PublicJob, type JobProgressEvent, type JobStage, type KioskSettings, type PromptViolation } from "@shared/schema";
 import { BASE_PATH } from "@/config";
+import { variantUrl } from "@/lib/images";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { JOB_STORAGE_KEY, useJobProgress } from "@/hooks/use-job-progress";
+import { ReferencePicker, type ReferenceSelection } from "@/components/reference-picker";
+import { StylePicker } from "@/components/style-picker";
+import { ShareQrCode } from "@/components/share-qr-code";
+
+const JOB_POLL_INTERVAL = 1500;
+const PAUSED_POLL_INTERVAL = 30000;
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  queued: "QUEUED",
+  starting: "STARTING",
+  generating: "GENERATING",
+  downloading: "DOWNLOADING",
+  saved: "SAVED",
+  failed: "FAILED",
+};
+
+// Rough share of the bar each stage owns, so it keeps moving between model steps
+function overallProgress(event: JobProgressEvent | null): number {
+  if (!event) return 0;
+  switch (event.stage) {
+    case "queued":
+      return 0.02;
+    case "starting":
+      return 0.08;
+    case "generating":
+      return 0.1 + 0.8 * (event.progress ?? 0);
+    case "downloading":
+      return 0.92;
+    case "saved":
+      return 1;
+    default:
+      return 0;
+  }
+}
 
 export default function Home() {
-  const [currentImage, setCurrentImage] = useState<GeneratedImage | null>(null);
+  const [currentImage, setCurrentImage] = useState<PublicImage | null>(null);
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
   const [showImageResult, setShowImageResult] = useState(false);
   const [resetTimer, setResetTimer] = useState<NodeJS.Timeout | null>(null);
+  const [variants, setVariants] = useState<PublicImage[] | null>(null);
+  const [mode, setMode] = useState<"text" | "image">("text");
+  const [styleId, setStyleId] = useState<string | null>(null);
+  const [violations, setViolations] = useState<PromptViolation[]>([]);
+  const [reference, setReference] = useState<ReferenceSelection>({ base: null, maskId: null, promptStrength: 0.8 });
+  const [activeJobId, setActiveJobId] = useState<string | null>(() => sessionStorage.getItem(JOB_STORAGE_KEY));
+  // Set when the server rate-limits this kiosk; generating waits out the countdown
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const { toast } = useToast();
 
   const form = useForm<GenerateImageRequest>({
@@ -26,78 +71,241 @@ export default function Home() {
     },
   });
 
+  // While paused, check back now and then so the kiosk reopens by itself
+  // once an admin raises the budget or a new day starts
+  const { data: settings } = useQuery<KioskSettings>({
+    queryKey: ["/api/settings"],
+    refetchInterval: (query) => (query.state.data?.paused ? PAUSED_POLL_INTERVAL : false),
+  });
+  const isPaused = !!settings?.paused;
+
   const promptValue = form.watch("prompt");
   
   // Calculate word count
   const wordCount = promptValue ? promptValue.trim().split(/\s+/).filter(word => word.length > 0).length : 0;
 
+  const maxWords = settings?.maxPromptWords ?? 60;
+
   // Fetch image count
   const { data: imageCountData } = useQuery<{ count: number }>({
     queryKey: ["/api/images/count"],
   });
 
-  // Generate image mutation
+  const trackJob = (jobId: string | null) => {
+    if (jobId) {
+      sessionStorage.setItem(JOB_STORAGE_KEY, jobId);
+    } else {
+      sessionStorage.removeItem(JOB_STORAGE_KEY);
+    }
+    setActiveJobId(jobId);
+  };
+
+  const onJobQueued = (data: { success: boolean; job: PublicJob }) => {
+    setViolations([]);
+    if (data.success) {
+      trackJob(data.job.id);
+    }
+  };
+
+  const onQueueError = (error: Error) => {
+    // Prompt policy rejections are shown next to the prompt, not as a toast
+    const violations = error instanceof ApiError && error.status === 422 ? error.field("violations") : undefined;
+    if (Array.isArray(violations)) {
+      setViolations(violations as PromptViolation[]);
+      return;
+    }
+    // So is being rate-limited, as a countdown
+    if (error instanceof ApiError && error.status === 429) {
+      const seconds = Number(error.field("retryAfter")) || 5;
+      setNow(Date.now());
+      setRetryAt(Date.now() + seconds * 1000);
+      return;
+    }
+    // A budget ran out since the settings were fetched: show the break screen
+    if (error instanceof ApiError && error.status === 503 && error.field("reason") === "budget") {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      return;
+    }
+    console.error("Generation failed:", error);
+    toast({
+      title: "Generation Failed",
+      description: error instanceof Error ? error.message : "Failed to generate image. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  // Generate image mutation - only queues the job, the result arrives via polling
   const generateMutation = useMutation({
     mutationFn: async (data: GenerateImageRequest) => {
       const response = await apiRequest("POST", "/api/generate", data);
-      return response.json();
+      return response.json() as Promise<{ success: boolean; job: PublicJob }>;
+    },
+    onSuccess: onJobQueued,
+    onError: onQueueError,
+  });
+
+  // Remix keeps the image's seed; an edited prompt replaces the original
+  const remixMutation = useMutation({
+    mutationFn: async ({ id, prompt }: { id: string; prompt?: string }) => {
+      const response = await apiRequest("POST", `/api/images/${id}/remix`, { prompt });
+      return response.json() as Promise<{ success: boolean; job: PublicJob }>;
+    },
+    onSuccess: onJobQueued,
+    onError: onQueueError,
+  });
+
+  // Picking a variant sends it to the wall and triggers the download
+  const chooseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/images/${id}/choose`);
+      return response.json() as Promise<{ success: boolean; image: PublicImage }>;
     },
     onSuccess: (data) => {
       if (data.success) {
-        setCurrentImage(data.image);
-        setShowSaveSuccess(true);
-        setTimeout(() => setShowSaveSuccess(false), 2000);
-        
-        // Show image in preview area only - stays in place
-        setShowImageResult(true);
-        
-        // Start 15-second auto-reset timer (5 seconds longer as requested)
-        if (resetTimer) clearTimeout(resetTimer);
-        const newTimer = setTimeout(() => {
-          form.reset();
-          setCurrentImage(null);
-          setShowImageResult(false);
-        }, 15000);
-        setResetTimer(newTimer);
-        
-        // Automatically download the image to user's computer
-        downloadImageToComputer(data.image.imageUrl, data.image.prompt);
-        
-        // Invalidate queries to refresh data
-        queryClient.invalidateQueries({ queryKey: ["/api/images/count"] });
-        
-        toast({
-          title: "Image Generated Successfully",
-          description: "Your image has been generated and downloaded.",
-        });
+        setVariants(null);
+        handleGenerated(data.image);
       }
     },
     onError: (error) => {
-      console.error("Generation failed:", error);
+      console.error("Choosing variant failed:", error);
       toast({
-        title: "Generation Failed",
-        description: error instanceof Error ? error.message : "Failed to generate image. Please try again.",
+        title: "Selection Failed",
+        description: error instanceof Error ? error.message : "Could not select that image. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  // Poll the active job until it finishes; transient network errors are retried
+  const jobQuery = useQuery<GenerationJobStatus>({
+    queryKey: ["/api/jobs", activeJobId],
+    enabled: !!activeJobId,
+    retry: 5,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "succeeded" || status === "failed" ? false : JOB_POLL_INTERVAL;
+    },
+  });
+
+  const jobProgress = useJobProgress(activeJobId);
+
+  const retrySeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) setRetryAt(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  // A saved/failed event means the next poll has the result, so fetch it now
+  useEffect(() => {
+    if (jobProgress?.stage === "saved" || jobProgress?.stage === "failed") {
+      jobQuery.refetch();
+    }
+  }, [jobProgress?.stage]);
+
+  const handleGenerated = (image: PublicImage) => {
+    setCurrentImage(image);
+    setShowSaveSuccess(true);
+    setTimeout(() => setShowSaveSuccess(false), 2000);
+    
+    // Show image in preview area only - stays in place
+    setShowImageResult(true);
+    
+    // Start 15-second auto-reset timer (5 seconds longer as requested)
+    if (resetTimer) clearTimeout(resetTimer);
+    const newTimer = setTimeout(() => {
+      form.reset();
+      setCurrentImage(null);
+      setShowImageResult(false);
+    }, 15000);
+    setResetTimer(newTimer);
+    
+    // Automatically download the image to user's computer
+    downloadImageToComputer(image);
+    
+    // Invalidate queries to refresh data
+    queryClient.invalidateQueries({ queryKey: ["/api/images/count"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/images/recent"] });
+    
+    toast({
+      title: "Image Generated Successfully",
+      description: image.approvalStatus === "pending"
+        ? "Your image has been downloaded and will appear on the wall once it's been reviewed."
+        : "Your image has been generated and downloaded.",
+    });
+  };
+
+  useEffect(() => {
+    const job = jobQuery.data;
+    if (!activeJobId || !job || job.id !== activeJobId) return;
+
+    if (job.status === "succeeded" && job.image) {
+      trackJob(null);
+      handleGenerated(job.image);
+    } else if (job.status === "succeeded" && job.images.length > 1) {
+      trackJob(null);
+      setVariants(job.images);
+    } else if (job.status === "failed") {
+      trackJob(null);
+      toast({
+        title: "Generation Failed",
+        description: job.error || "Failed to generate image. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [jobQuery.data, activeJobId]);
+
+  useEffect(() => {
+    if (activeJobId && jobQuery.isError) {
+      console.error("Lost track of generation job:", jobQuery.error);
+      trackJob(null);
+      toast({
+        title: "Generation Failed",
+        description: "Lost contact with the generator. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [jobQuery.isError, activeJobId]);
+
   const onSubmit = (data: GenerateImageRequest) => {
-    generateMutation.mutate(data);
+    const request: GenerateImageRequest = {
+      ...data,
+      numOutputs: settings?.defaultOutputs ?? 1,
+      styleId: styleId ?? undefined,
+    };
+
+    if (mode === "image") {
+      const { base, maskId, promptStrength } = reference;
+      if (!base) {
+        toast({
+          title: "Choose a Base Image",
+          description: "Upload an image or pick a previous generation first.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (base.type === "upload") {
+        request.referenceImageId = base.id;
+      } else {
+        request.sourceImageId = base.id;
+      }
+      request.maskId = maskId ?? undefined;
+      request.promptStrength = promptStrength;
+    }
+
+    setVariants(null);
+    generateMutation.mutate(request);
   };
 
 
 
-  const downloadImageToComputer = (imageUrl: string, prompt: string) => {
+  const downloadImageToComputer = (image: PublicImage) => {
     try {
-      // Extract filename from imageUrl
-      const filename = imageUrl.split('/').pop();
-      if (!filename) {
-        throw new Error('Invalid image URL');
-      }
-      
-      // Use dedicated download endpoint
-      const downloadUrl = `${window.location.origin}${BASE_PATH}/api/download/${filename}`;
+      // Use dedicated download endpoint; the server names the file from the prompt
+      const downloadUrl = `${window.location.origin}${BASE_PATH}/api/images/${image.id}/download`;
       
       // Simple direct download approach
       window.open(downloadUrl, '_blank');
@@ -118,7 +326,17 @@ export default function Home() {
 
   const handleDownload = () => {
     if (currentImage) {
-      downloadImageToComputer(currentImage.imageUrl, currentImage.prompt);
+      downloadImageToComputer(currentImage);
+    }
+  };
+
+  const handleRemix = () => {
+    if (currentImage) {
+      if (resetTimer) clearTimeout(resetTimer);
+      setResetTimer(null);
+      const prompt = form.getValues("prompt").trim();
+      remixMutation.mutate({ id: currentImage.id, prompt: prompt || undefined });
+      setShowImageResult(false);
     }
   };
 
@@ -132,7 +350,7 @@ export default function Home() {
     }
   };
 
-  const isGenerating = generateMutation.isPending;
+  const isGenerating = generateMutation.isPending || remixMutation.isPending || !!activeJobId;
 
   return (
     <div className="h-screen flex flex-col bg-background relative overflow-hidden">
@@ -192,19 +410,66 @@ export default function Home() {
                     <div className="w-2 h-2 bg-primary animate-pulse" style={{ animationDelay: '0.6s' }}></div>
                   </div>
                   <div className="w-48 bg-border h-0.5 overflow-hidden">
-                    <div className="bg-gradient-to-r from-primary to-accent h-full animate-pulse transition-all duration-1000" style={{ width: '60%' }}></div>
+                    <div className="bg-gradient-to-r from-primary to-accent h-full transition-all duration-1000" style={{ width: `${Math.round(overallProgress(jobProgress) * 100)}%` }}></div>
                   </div>
                   <div className="mt-3 text-accent/80 font-mono text-xs tracking-[0.3em] font-light">
-                    PROCESSING
+                    {jobProgress ? STAGE_LABELS[jobProgress.stage] : "PROCESSING"}
+                    {jobProgress?.stage === "generating" && jobProgress.progress != null && (
+                      <span className="ml-2">{Math.round(jobProgress.progress * 100)}%</span>
+                    )}
                   </div>
+                  {jobProgress?.stage === "queued" && jobProgress.queuePosition != null && (
+                    <div className="mt-1 text-accent/60 font-mono text-xs tracking-[0.2em] font-light">
+                      {jobProgress.queuePosition === 1 ? "YOU'RE NEXT" : `POSITION ${jobProgress.queuePosition} IN LINE`}
+                    </div>
+                  )}
                 </div>
               )}
               
+              {/* Spending budget used up - generation is paused */}
+              {isPaused && !isGenerating && !variants && !currentImage && (
+                <div className="absolute inset-0 bg-muted/95 flex flex-col items-center justify-center border border-border">
+                  <div className="text-accent/80 font-mono text-sm tracking-[0.3em] font-light">
+                    WE'RE TAKING A BREAK
+                  </div>
+                  <div className="mt-2 text-accent/60 font-mono text-xs tracking-[0.2em] font-light">
+                    BACK SOON
+                  </div>
+                </div>
+              )}
+
+              {/* Variant chooser - visitor picks one of the batch */}
+              {variants && !isGenerating && (
+                <div className="absolute inset-0 bg-muted grid grid-cols-2 grid-rows-2 gap-1 p-1 border border-border">
+                  {variants.map((variant, index) => (
+                    <button
+                      key={variant.id}
+                      type="button"
+                      disabled={chooseMutation.isPending}
+                      onClick={() => chooseMutation.mutate(variant.id)}
+                      className="relative overflow-hidden border border-border hover:border-primary focus:border-primary transition-all duration-300 disabled:opacity-60"
+                    >
+                      <img
+                        src={variantUrl(variant.imageUrl, "web")}
+                        alt={`Variant ${index + 1}: ${variant.prompt}`}
+                        className="w-full h-full object-cover"
+                      />
+                      <span className="absolute bottom-1 left-1 bg-card/90 px-2 py-0.5 font-mono text-xs tracking-[0.2em]">
+                        {index + 1}
+                      </span>
+                    </button>
+                  ))}
+                  <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-card/95 px-3 py-1 font-mono text-xs tracking-[0.3em] pointer-events-none">
+                    PICK YOUR FAVORITE
+                  </div>
+                </div>
+              )}
+
               {/* Image overlay - appears on top with exact positioning */}
               {currentImage && showImageResult && (
                 <div className="absolute inset-0 overflow-hidden border border-border image-container">
                   <img 
-                    src={currentImage.imageUrl}
+                    src={variantUrl(currentImage.imageUrl, "web")}
                     alt={`Generated image: ${currentImage.prompt}`}
                     onLoad={() => {
                       // Ensure image maintains its full size without any flashing
@@ -222,6 +487,15 @@ export default function Home() {
                     >
                       <Download className="h-3 w-3" />
                     </Button>
+                    <Button 
+                      size="sm"
+                      variant="secondary"
+                      className="bg-card/95 hover:bg-card border border-border text-foreground backdrop-blur-sm w-7 h-7 p-0"
+                      onClick={handleRemix}
+                      title="Remix with the same seed"
+                    >
+                      <Shuffle className="h-3 w-3" />
+                    </Button>
                     <Button 
                       size="sm"
                       variant="secondary"
@@ -231,6 +505,9 @@ export default function Home() {
                       <Share2 className="h-3 w-3" />
                     </Button>
                   </div>
+
+                  {/* Visitors scan this to take the image with them */}
+                  <ShareQrCode imageId={currentImage.id} size={112} className="absolute bottom-2 left-2" />
                 </div>
               )}
             </div>
@@ -240,6 +517,29 @@ export default function Home() {
           <div className="tech-border silver-glow bg-card/30 backdrop-blur-sm max-w-[80rem] mx-auto w-full">
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="p-6 space-y-4">
+                {/* Mode toggle - text only, or based on an image */}
+                <div className="flex gap-2">
+                  {(["text", "image"] as const).map((option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      size="sm"
+                      variant={mode === option ? "default" : "secondary"}
+                      onClick={() => setMode(option)}
+                      disabled={isGenerating}
+                      className="font-mono text-xs tracking-[0.2em]"
+                    >
+                      <span className="lowercase">{option === "text" ? "text" : "from image"}</span>
+                    </Button>
+                  ))}
+                </div>
+
+                <StylePicker value={styleId} onChange={setStyleId} disabled={isGenerating} />
+
+                {mode === "image" && (
+                  <ReferencePicker value={reference} onChange={setReference} disabled={isGenerating} />
+                )}
+
                 <FormField
                   control={form.control}
                   name="prompt"
@@ -251,25 +551,40 @@ export default function Home() {
                           rows={3}
                           className="w-full px-6 py-4 bg-input/50 border-0 focus:bg-input/80 text-black dark:text-white placeholder-accent/60 font-mono text-base transition-all duration-500 resize-none tracking-wide leading-relaxed font-medium"
                           placeholder="describe your vision"
-                          maxLength={400}
+                          maxLength={settings?.maxPromptChars ?? 400}
                         />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+
+                {/* Prompt policy rejections from the server */}
+                {violations.length > 0 && (
+                  <ul className="space-y-1 text-sm font-mono text-primary/80 tracking-wide">
+                    {violations.map((violation, index) => (
+                      <li key={`${violation.code}-${index}`}>{violation.message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {retrySeconds > 0 && (
+                  <p className="text-sm font-mono text-primary/80 tracking-wide lowercase">
+                    lots of ideas flying around, try again in {retrySeconds}s
+                  </p>
+                )}
                 
                 <div className="flex items-center justify-between">
                   <div className="text-sm font-mono text-accent/70 tracking-[0.2em] font-light">
-                    {wordCount}/60
-                    {wordCount > 60 && (
+                    {wordCount}/{maxWords}
+                    {wordCount > maxWords && (
                       <span className="text-primary/80 ml-3 font-medium">limit exceeded</span>
                     )}
                   </div>
                   
                   <Button 
                     type="submit" 
-                    disabled={isGenerating || !promptValue.trim() || wordCount > 60}
+                    disabled={isGenerating || isPaused || retrySeconds > 0 || !promptValue.trim() || wordCount > maxWords}
                     className="bg-primary/90 hover:bg-primary text-primary-foreground px-8 py-3 font-mono font-medium text-sm tracking-[0.15em] transition-all duration-500 tech-glow disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     {isGenerating ? (
@@ -277,7 +592,13 @@ export default function Home() {
                     ) : (
                       <Wand2 className="h-4 w-4 mr-2" />
                     )}
-                    <span className="lowercase">{isGenerating ? "processing" : "generate"}</span>
+                    <span className="lowercase">
+                      {isGenerating
+                        ? "processing"
+                        : isPaused
+                          ? "taking a break"
+                          : retrySeconds > 0 ? `wait ${retrySeconds}s` : "generate"}
+                    </span>
                   </Button>
                 </div>
               </form>
@@ -296,6 +617,11 @@ export default function Home() {
                 form.reset();
                 setCurrentImage(null);
                 setShowImageResult(false);
+                setVariants(null);
+                setMode("text");
+                setStyleId(null);
+                setViolations([]);
+                setReference({ base: null, maskId: null, promptStrength: 0.8 });
               }}
               className="bg-[#E4002B] hover:bg-[#C8001F] text-white px-8 py-2.5 font-mono font-medium text-sm tracking-[0.15em] transition-all duration-500 tech-border"
             >
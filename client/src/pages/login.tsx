@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Redirect, useSearch } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// Only same-site paths, so a crafted link can't bounce a user elsewhere
+function nextPath(search: string, fallback: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : fallback;
+}
+
+export default function Login() {
+  const { user, can, loginMutation } = useAuth();
+  const search = useSearch();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Visitor accounts (kiosks) go to the kiosk, staff to moderation
+  if (user) return <Redirect to={nextPath(search, can("moderate") ? "/operator" : "/")} replace />;
+
+  const error = loginMutation.error;
+  const message = error instanceof ApiError && error.serverMessage
+    ? error.serverMessage
+    : error
+      ? "Could not sign in right now"
+      : null;
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-background p-6">
+      <form
+        className="w-full max-w-sm space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          loginMutation.mutate({ username: username.trim(), password });
+        }}
+      >
+        <h1 className="text-sm font-mono text-accent tracking-[0.2em]">SIGN IN</h1>
+        <Input
+          placeholder="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {message && <p className="text-xs font-mono text-destructive lowercase">{message}</p>}
+        <Button
+          type="submit"
+          className="w-full font-mono tracking-[0.15em]"
+          disabled={!username.trim() || !password || loginMutation.isPending}
+        >
+          <span className="lowercase">sign in</span>
+        </Button>
+      </form>
+    </div>
+  );
+}
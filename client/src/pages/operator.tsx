@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Check, EyeOff, Link2Off, LogOut, Trash2, X } from "lucide-react";
+import { approvalStatuses, type ApprovalStatus, type GeneratedImage, type ModerationActionType, type ShareToken } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { variantUrl } from "@/lib/images";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const QUEUE_POLL_INTERVAL = 5000;
+
+// Actions offered for an image in each state
+const ACTIONS: Record<ApprovalStatus, ModerationActionType[]> = {
+  pending: ["approve", "reject"],
+  approved: ["hide"],
+  rejected: ["approve"],
+  hidden: ["approve"],
+};
+
+const ACTION_ICONS: Record<ModerationActionType, typeof Check> = {
+  approve: Check,
+  reject: X,
+  hide: EyeOff,
+};
+
+// Revokes every live QR share link of an image, e.g. after a visitor asks
+// for it to be taken down
+function ShareLinks({ image }: { image: GeneratedImage }) {
+  const { toast } = useToast();
+  const queryKey = ["/api/operator/images", image.id, "share-tokens"];
+
+  const { data: tokens } = useQuery<ShareToken[]>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/operator/images/${image.id}/share-tokens`);
+      return res.json();
+    },
+  });
+  const live = tokens?.filter((token) => !token.revokedAt && new Date(token.expiresAt) > new Date()) ?? [];
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      for (const token of live) {
+        await apiRequest("POST", `/api/operator/share-tokens/${token.id}/revoke`, {});
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => {
+      toast({
+        title: "Revoke Failed",
+        description: error instanceof Error ? error.message : "Could not revoke the share links.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (live.length === 0) return null;
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      disabled={revokeMutation.isPending}
+      onClick={() => revokeMutation.mutate()}
+      className="font-mono text-xs tracking-[0.15em]"
+    >
+      <Link2Off className="h-3 w-3" />
+      <span className="lowercase">revoke {live.length} share link{live.length === 1 ? "" : "s"}</span>
+    </Button>
+  );
+}
+
+// Moderation queue: approve what may go on the wall and gallery, reject or
+// take down everything else
+export default function Operator() {
+  const { user, can, logoutMutation } = useAuth();
+  const [status, setStatus] = useState<ApprovalStatus>("pending");
+  const { toast } = useToast();
+
+  const { data: images, isLoading } = useQuery<GeneratedImage[]>({
+    queryKey: ["/api/operator/images", status],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/operator/images?status=${status}`);
+      return res.json();
+    },
+    refetchInterval: status === "pending" ? QUEUE_POLL_INTERVAL : false,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ image, action }: { image: GeneratedImage; action: ModerationActionType }) => {
+      const res = await apiRequest("POST", `/api/operator/images/${image.id}/${action}`, {});
+      return (await res.json()) as GeneratedImage;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/operator/images"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/images/recent"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Action Failed",
+        description: error instanceof Error ? error.message : "Could not update the image.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (image: GeneratedImage) => {
+      await apiRequest("DELETE", `/api/operator/images/${image.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/operator/images"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/images/recent"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not delete the image.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <Tabs value={status} onValueChange={(value) => setStatus(value as ApprovalStatus)}>
+            <TabsList>
+              {approvalStatuses.map((value) => (
+                <TabsTrigger key={value} value={value} className="font-mono text-xs tracking-[0.15em] lowercase">
+                  {value}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-2">
+            {can("settings") && (
+              <Button asChild variant="ghost" size="sm" className="font-mono text-xs tracking-[0.15em]">
+                <Link href="/admin">
+                  <span className="lowercase">admin</span>
+                </Link>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={logoutMutation.isPending}
+              onClick={() => logoutMutation.mutate()}
+              className="font-mono text-xs tracking-[0.15em]"
+            >
+              <LogOut className="h-3 w-3" />
+              <span className="lowercase">{user?.username}</span>
+            </Button>
+          </div>
+        </div>
+
+        {!isLoading && images?.length === 0 && (
+          <p className="text-xs font-mono text-accent/70 tracking-[0.2em]">nothing here</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {images?.map((image) => (
+            <Card key={image.id} className="tech-border overflow-hidden">
+              <img src={variantUrl(image.imageUrl, "thumb")} alt={image.prompt} className="w-full aspect-[3/4] object-cover" />
+              <CardContent className="p-3 space-y-2">
+                <p className="text-sm line-clamp-3">{image.prompt}</p>
+                <p className="text-xs font-mono text-accent/70">
+                  {new Date(image.generatedAt).toLocaleString()}
+                  {image.moderatedBy && ` · ${image.moderatedBy}`}
+                </p>
+                <div className="flex gap-2">
+                  {ACTIONS[image.approvalStatus].map((action) => {
+                    const Icon = ACTION_ICONS[action];
+                    return (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant={action === "approve" ? "default" : "secondary"}
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ image, action })}
+                        className="font-mono text-xs tracking-[0.15em]"
+                      >
+                        <Icon className="h-3 w-3" />
+                        <span className="lowercase">{action}</span>
+                      </Button>
+                    );
+                  })}
+                  {can("delete") && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (confirm("Delete this image for good?")) deleteMutation.mutate(image);
+                      }}
+                      className="font-mono text-xs tracking-[0.15em]"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="lowercase">delete</span>
+                    </Button>
+                  )}
+                </div>
+                <ShareLinks image={image} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Download, Loader2 } from "lucide-react";
+import type { SharedImage } from "@shared/schema";
+import { ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+// Mobile page a visitor lands on after scanning the kiosk or wall QR code
+export default function Share() {
+  const { token } = useParams<{ token: string }>();
+  const { data: shared, error, isLoading } = useQuery<SharedImage>({
+    queryKey: [`/api/share/${token}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    const message = (error instanceof ApiError && error.serverMessage) || "This link can't be opened right now";
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <p className="font-mono text-sm text-accent/80 tracking-[0.15em] text-center lowercase">{message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <img src={shared.imageUrl} alt={shared.prompt} className="w-full border border-border" />
+        <p className="text-sm leading-snug">{shared.prompt}</p>
+        <Button asChild className="w-full font-mono tracking-[0.15em]">
+          <a href={shared.downloadUrl} download>
+            <Download className="h-4 w-4" />
+            <span className="lowercase">save image</span>
+          </a>
+        </Button>
+        <p className="text-xs font-mono text-accent/70 text-center">
+          link works until {new Date(shared.expiresAt).toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PublicImage, KioskSettings } from "@shared/schema";
+import { apiUrl } from "@/config";
+import { queryClient } from "@/lib/queryClient";
+import { variantUrl } from "@/lib/images";
+import { ShareQrCode } from "@/components/share-qr-code";
+
+// Full-bleed LED wall output. Sized to the physical wall's pixels (not the
+// browser viewport), it shows each new image as it is chosen and falls back
+// to cycling recent images when nothing new has arrived for a while.
+export default function Wall() {
+  const { data: settings } = useQuery<KioskSettings>({
+    queryKey: ["/api/settings"],
+  });
+  const { data: recentImages } = useQuery<PublicImage[]>({
+    queryKey: ["/api/images/recent"],
+  });
+
+  // The last two images, oldest first; the newest fades in over the other
+  const [layers, setLayers] = useState<PublicImage[]>([]);
+  const [idle, setIdle] = useState(false);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const attractIndex = useRef(0);
+
+  const show = (image: PublicImage) => {
+    setLayers((current) => {
+      if (current[current.length - 1]?.id === image.id) return current;
+      return [...current.slice(-1), image];
+    });
+  };
+
+  const restartIdleTimer = () => {
+    if (!settings) return;
+    if (idleTimer.current) clearTimeout(idleTimer.current);
+    setIdle(false);
+    idleTimer.current = setTimeout(() => setIdle(true), settings.wall.idleTimeoutMs);
+  };
+
+  // Start with the latest image, then go idle until something new arrives
+  useEffect(() => {
+    if (recentImages && recentImages.length > 0 && layers.length === 0) {
+      show(recentImages[0]);
+    }
+  }, [recentImages]);
+
+  useEffect(() => {
+    restartIdleTimer();
+    return () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+    };
+  }, [settings]);
+
+  // New images are pushed from the server as soon as they are chosen
+  useEffect(() => {
+    const source = new EventSource(apiUrl("/api/wall/events"), { withCredentials: true });
+    source.addEventListener("image", (message) => {
+      const image = JSON.parse((message as MessageEvent<string>).data) as PublicImage;
+      show(image);
+      restartIdleTimer();
+      // Keep the attract loop's pool current
+      queryClient.invalidateQueries({ queryKey: ["/api/images/recent"] });
+    });
+    // An operator took an image down; drop it if it is on screen
+    source.addEventListener("removed", (message) => {
+      const { id } = JSON.parse((message as MessageEvent<string>).data) as { id: string };
+      setLayers((current) => current.filter((image) => image.id !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/images/recent"] });
+    });
+    return () => source.close();
+  }, [settings]);
+
+  // Attract loop over recent images while idle
+  useEffect(() => {
+    if (!idle || !settings || !recentImages || recentImages.length < 2) return;
+    const interval = setInterval(() => {
+      attractIndex.current = (attractIndex.current + 1) % recentImages.length;
+      show(recentImages[attractIndex.current]);
+    }, settings.wall.attractIntervalMs);
+    return () => clearInterval(interval);
+  }, [idle, settings, recentImages]);
+
+  if (!settings) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black overflow-hidden">
+      <div
+        className="absolute top-0 left-0 bg-black overflow-hidden"
+        style={{ width: settings.wall.width, height: settings.wall.height }}
+      >
+        {layers.map((image, index) => (
+          <img
+            key={image.id}
+            src={variantUrl(image.imageUrl, "wall")}
+            alt=""
+            className={index > 0 ? "wall-layer wall-layer-enter" : "wall-layer"}
+          />
+        ))}
+        {layers.length > 0 && (
+          <ShareQrCode
+            key={layers[layers.length - 1].id}
+            imageId={layers[layers.length - 1].id}
+            size={Math.round(settings.wall.width / 8)}
+            className="absolute bottom-6 right-6"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+CREATE TABLE "generated_images" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prompt" text NOT NULL,
+	"image_url" text NOT NULL,
+	"local_path" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"resolution" text NOT NULL,
+	"model_used" text DEFAULT 'stability-ai/sdxl' NOT NULL,
+	"generated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "generation_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"request" jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"image_id" varchar,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_image_id_generated_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."generated_images"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
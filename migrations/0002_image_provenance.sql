@@ -0,0 +1,4 @@
+ALTER TABLE "generated_images" ADD COLUMN "generation_params" jsonb;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "prediction_id" text;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "duration_ms" integer;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "status" text DEFAULT 'succeeded' NOT NULL;
\ No newline at end of file
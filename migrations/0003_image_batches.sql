@@ -0,0 +1,2 @@
+ALTER TABLE "generated_images" ADD COLUMN "batch_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "chosen" boolean DEFAULT true NOT NULL;
\ No newline at end of file
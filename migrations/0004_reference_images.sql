@@ -0,0 +1,15 @@
+CREATE TABLE "reference_images" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" text DEFAULT 'image' NOT NULL,
+	"local_path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "source_image_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "reference_image_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "mask_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD CONSTRAINT "generated_images_source_image_id_generated_images_id_fk" FOREIGN KEY ("source_image_id") REFERENCES "public"."generated_images"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD CONSTRAINT "generated_images_reference_image_id_reference_images_id_fk" FOREIGN KEY ("reference_image_id") REFERENCES "public"."reference_images"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD CONSTRAINT "generated_images_mask_id_reference_images_id_fk" FOREIGN KEY ("mask_id") REFERENCES "public"."reference_images"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
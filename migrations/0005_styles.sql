@@ -0,0 +1,17 @@
+CREATE TABLE "styles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"weights" text NOT NULL,
+	"trigger_word" text,
+	"lora_scale" real DEFAULT 1 NOT NULL,
+	"extra_lora" text,
+	"extra_lora_scale" real DEFAULT 1 NOT NULL,
+	"example_image_url" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "styles_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "style_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD CONSTRAINT "generated_images_style_id_styles_id_fk" FOREIGN KEY ("style_id") REFERENCES "public"."styles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
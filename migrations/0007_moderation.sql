@@ -0,0 +1,13 @@
+CREATE TABLE "moderation_actions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"image_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"operator" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "approval_status" text DEFAULT 'approved' NOT NULL;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "moderated_by" text;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "moderated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_image_id_generated_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."generated_images"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "generated_images" ALTER COLUMN "generated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+CREATE INDEX "generated_images_generated_at_idx" ON "generated_images" USING btree ("generated_at");--> statement-breakpoint
+CREATE INDEX "generated_images_prompt_search_idx" ON "generated_images" USING gin (to_tsvector('english', "prompt"));
\ No newline at end of file
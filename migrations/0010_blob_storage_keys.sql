@@ -0,0 +1,8 @@
+ALTER TABLE "generated_images" RENAME COLUMN "local_path" TO "storage_key";--> statement-breakpoint
+ALTER TABLE "image_variants" RENAME COLUMN "local_path" TO "storage_key";--> statement-breakpoint
+ALTER TABLE "reference_images" RENAME COLUMN "local_path" TO "storage_key";--> statement-breakpoint
+CREATE INDEX "generated_images_storage_key_idx" ON "generated_images" USING btree ("storage_key");--> statement-breakpoint
+-- Absolute paths on the app server become keys in the local blob store
+UPDATE "generated_images" SET "storage_key" = 'generated_images/' || regexp_replace("storage_key", '^.*/', '') WHERE "storage_key" LIKE '/%';--> statement-breakpoint
+UPDATE "image_variants" SET "storage_key" = 'image_variants/' || regexp_replace("storage_key", '^.*/', '') WHERE "storage_key" LIKE '/%';--> statement-breakpoint
+UPDATE "reference_images" SET "storage_key" = 'reference_images/' || regexp_replace("storage_key", '^.*/', '') WHERE "storage_key" LIKE '/%';
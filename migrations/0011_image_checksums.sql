@@ -0,0 +1 @@
+ALTER TABLE "generated_images" ADD COLUMN "sha256" text;
\ No newline at end of file
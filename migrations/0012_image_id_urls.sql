@@ -0,0 +1,2 @@
+-- Filename URLs ("<base>/api/images/<filename>") become id URLs, keeping any base path
+UPDATE "generated_images" SET "image_url" = regexp_replace("image_url", '/api/images/[^/]+$', '/api/images/' || "id" || '/file') WHERE "image_url" !~ '/api/images/[^/]+/file$';
@@ -0,0 +1 @@
+CREATE INDEX "generated_images_sha256_idx" ON "generated_images" USING btree ("sha256");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "share_tokens" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token" text NOT NULL,
+	"image_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"revoked_by" text,
+	CONSTRAINT "share_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "share_tokens" ADD CONSTRAINT "share_tokens_image_id_generated_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."generated_images"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "share_tokens_image_id_idx" ON "share_tokens" USING btree ("image_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "session" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+-- Rows from before hashing still hold plaintext; they are hashed on the user's next login
+ALTER TABLE "users" RENAME COLUMN "password" TO "password_hash";--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "session" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "generation_jobs" DROP CONSTRAINT "generation_jobs_image_id_generated_images_id_fk";
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'operator' NOT NULL;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_image_id_generated_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."generated_images"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Every signed-in user could use the admin endpoints before roles existed
+UPDATE "users" SET "role" = 'admin';
@@ -0,0 +1,21 @@
+CREATE TABLE "api_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"rate_limit" integer DEFAULT 60 NOT NULL,
+	"request_count" integer DEFAULT 0 NOT NULL,
+	"image_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	"revoked_by" text,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "generated_images" ADD COLUMN "api_key_id" varchar;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "api_key_id" varchar;--> statement-breakpoint
+ALTER TABLE "generated_images" ADD CONSTRAINT "generated_images_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
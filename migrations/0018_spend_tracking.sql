@@ -0,0 +1,4 @@
+ALTER TABLE "generation_jobs" ADD COLUMN "kiosk_id" text;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "predict_seconds" real;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "estimated_cost" real;--> statement-breakpoint
+CREATE INDEX "generation_jobs_created_at_idx" ON "generation_jobs" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { createHash, randomBytes } from "crypto";
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { apiKeyScopePermissions, type ApiKey, type ApiKeyInfo, type CreateApiKeyRequest, type CreatedApiKey, type Permission } from "@shared/schema";
+
+// Recognizable in logs and secret scanners, and never mistaken for ADMIN_TOKEN
+const KEY_PREFIX = "mm29_";
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+// Keys are random enough that a fast hash is as good as a slow one
+function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function toApiKeyInfo(key: ApiKey): ApiKeyInfo {
+  const { keyHash: _keyHash, ...info } = key;
+  return info;
+}
+
+export function apiKeyHasPermission(key: ApiKey, permission: Permission): boolean {
+  return key.scopes.some((scope) => apiKeyScopePermissions[scope].includes(permission));
+}
+
+export async function mintApiKey(request: CreateApiKeyRequest, createdBy: string | undefined): Promise<CreatedApiKey> {
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const key = await storage.createApiKey({
+    name: request.name,
+    prefix: secret.slice(0, SHOWN_PREFIX_LENGTH),
+    keyHash: hashApiKey(secret),
+    scopes: Array.from(new Set(request.scopes)),
+    rateLimit: request.rateLimit,
+    createdBy: createdBy ?? null,
+  });
+  return { key: toApiKeyInfo(key), secret };
+}
+
+// Accepts `Authorization: Bearer mm29_...` alongside session cookies. Other
+// bearer tokens (ADMIN_TOKEN) are left to the role guards. A key's rate limit
+// is charged by the generation routes, like everyone else's.
+export const authenticateApiKey: RequestHandler = async (req, res, next) => {
+  const header = req.get("authorization") ?? "";
+  if (!header.startsWith(`Bearer ${KEY_PREFIX}`)) return next();
+
+  try {
+    const key = await storage.getApiKeyByHash(hashApiKey(header.slice("Bearer ".length)));
+    if (!key || key.revokedAt) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+
+    storage.recordApiKeyUsage(key.id, { requests: 1 }).catch((error) => {
+      console.error("Error recording API key usage:", error);
+    });
+    req.apiKey = key;
+    next();
+  } catch (error) {
+    console.error("Error checking API key:", error);
+    res.status(500).json({ message: "Failed to check API key" });
+  }
+};
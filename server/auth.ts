@@ -0,0 +1,168 @@
+import type { Express, Request, RequestHandler } from "express";
+import { randomBytes, timingSafeEqual } from "crypto";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { config } from "./config";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { authenticateApiKey, apiKeyHasPermission } from "./api-keys";
+import { hasPermission, userRoles, type ApiKey, type AuthUser, type Permission, type User, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    // req.user carries only what is safe to hand to the client
+    interface User extends AuthUser {}
+
+    interface Request {
+      // Set when the request authenticated with an API key
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "mm29.sid";
+
+function toAuthUser(user: User): AuthUser {
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+// Checks a username and password, upgrading a leftover plaintext password
+// to a hash on success. Unknown usernames cost as much as wrong passwords.
+async function authenticate(username: string, password: string, dummyHash: string): Promise<AuthUser | undefined> {
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    await verifyPassword(password, dummyHash);
+    return undefined;
+  }
+  if (!(await verifyPassword(password, user.passwordHash))) return undefined;
+
+  if (!isPasswordHash(user.passwordHash)) {
+    await storage.updateUser(user.id, { passwordHash: await hashPassword(password) });
+  }
+  return toAuthUser(user);
+}
+
+// Creates the ADMIN_USERNAME admin account on startup if it does not exist yet
+async function ensureBootstrapUser(): Promise<void> {
+  const { bootstrapUsername, bootstrapPassword } = config.auth;
+  if (!bootstrapUsername || !bootstrapPassword) return;
+  if (await storage.getUserByUsername(bootstrapUsername)) return;
+  await storage.createUser({
+    username: bootstrapUsername,
+    passwordHash: await hashPassword(bootstrapPassword),
+    role: "admin",
+  });
+  console.log(`Created user ${bootstrapUsername}`);
+}
+
+// Session cookies plus passport-local. Sessions live in Postgres when a
+// database is configured and in memory otherwise, like the rest of storage.
+export async function setupAuth(app: Express): Promise<void> {
+  const production = app.get("env") === "production";
+  let secret = config.auth.sessionSecret;
+  if (!secret) {
+    if (production) {
+      console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+    }
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const maxAge = config.auth.sessionTtlHours * 60 * 60 * 1000;
+  const store = pool
+    ? new (connectPgSimple(session))({ pool, tableName: "session" })
+    : new (createMemoryStore(session))({ checkPeriod: maxAge });
+
+  // Secure cookies behind the deployment's TLS-terminating proxy
+  if (production) app.set("trust proxy", 1);
+  app.use(session({
+    name: SESSION_COOKIE,
+    secret,
+    store,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      path: config.basePath || "/",
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateApiKey);
+
+  const dummyHash = await hashPassword(randomBytes(16).toString("hex"));
+  passport.use(new LocalStrategy((username, password, done) => {
+    authenticate(username, password, dummyHash).then((user) => done(null, user ?? false), done);
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser((id: string, done) => {
+    storage.getUser(id).then((user) => done(null, user ? toAuthUser(user) : false), done);
+  });
+
+  await ensureBootstrapUser();
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Sign in required" });
+};
+
+function tokenMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The role a request acts with: the signed-in user's, admin for scripts
+// sending `Authorization: Bearer <ADMIN_TOKEN>`, otherwise the anonymous role
+export function getRole(req: Request): UserRole | null {
+  if (req.user) return req.user.role;
+
+  const header = req.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (token && config.adminToken && tokenMatches(token, config.adminToken)) return "admin";
+
+  return config.auth.anonymousRole;
+}
+
+// 401 when signing in might help, 403 when the signed-in role is not enough
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    const role = getRole(req);
+    if (role && roles.includes(role)) return next();
+    if (!req.user) return res.status(401).json({ message: "Sign in required" });
+    res.status(403).json({ message: "You don't have permission to do that" });
+  };
+}
+
+// For routes that need a permission only some of the time
+export function canAct(req: Request, permission: Permission): boolean {
+  if (req.apiKey) return apiKeyHasPermission(req.apiKey, permission);
+  return hasPermission(getRole(req), permission);
+}
+
+// API keys are judged by their scopes rather than a role
+export function requirePermission(permission: Permission): RequestHandler {
+  const byRole = requireRole(...userRoles.filter((role) => hasPermission(role, permission)));
+  return (req, res, next) => {
+    if (!req.apiKey) return byRole(req, res, next);
+    if (apiKeyHasPermission(req.apiKey, permission)) return next();
+    res.status(403).json({ message: "This API key's scopes don't allow that" });
+  };
+}
+
+// Who is acting on an admin endpoint, so moderation decisions can be
+// attributed: the signed-in user or the API key. ADMIN_TOKEN callers are
+// anonymous and can't moderate.
+export function getOperatorName(req: Request): string | undefined {
+  if (req.user) return req.user.username;
+  if (req.apiKey) return `key:${req.apiKey.name}`.slice(0, 64);
+  return undefined;
+}
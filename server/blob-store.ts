@@ -0,0 +1,296 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { config } from "./config";
+
+export type BlobMetadata = {
+  key: string;
+  size: number;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+};
+
+// size is always the whole object; with a range the stream holds only the
+// requested bytes
+export type BlobObject = BlobMetadata & { stream: Readable };
+
+// Inclusive byte offsets, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+export type SignedUrlOptions = {
+  expiresInSeconds?: number;
+  // Served as an attachment with this name
+  downloadFilename?: string;
+};
+
+// Storage for image bytes, addressed by slash-separated keys such as
+// "generated_images/<filename>.png"
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType: string): Promise<BlobMetadata>;
+  // Stores a file from local disk; the caller still owns the source file
+  putFile(key: string, filePath: string, contentType: string): Promise<BlobMetadata>;
+  get(key: string, range?: ByteRange): Promise<BlobObject | undefined>;
+  head(key: string): Promise<BlobMetadata | undefined>;
+  delete(key: string): Promise<void>;
+  // A URL clients can fetch directly, or null when the backend has none
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string | null>;
+  list(prefix: string): AsyncIterable<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+};
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+// Files under a root directory. Keys map straight to relative paths, so
+// existing generated_images/ and reference_images/ folders need no migration.
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private metadata(key: string, stats: { size: number; mtime: Date }): BlobMetadata {
+    return {
+      key,
+      size: stats.size,
+      contentType: contentTypeForKey(key),
+      etag: `W/"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`,
+      lastModified: stats.mtime,
+    };
+  }
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<BlobMetadata> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Written beside the target and renamed so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, filePath);
+    return this.metadata(key, await fs.stat(filePath));
+  }
+
+  async putFile(key: string, sourcePath: string, _contentType: string): Promise<BlobMetadata> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.copyFile(sourcePath, tempPath);
+    await fs.rename(tempPath, filePath);
+    return this.metadata(key, await fs.stat(filePath));
+  }
+
+  async get(key: string, range?: ByteRange): Promise<BlobObject | undefined> {
+    const metadata = await this.head(key);
+    if (!metadata) return undefined;
+    return { ...metadata, stream: createReadStream(this.resolve(key), range) };
+  }
+
+  async head(key: string): Promise<BlobMetadata | undefined> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return stats.isFile() ? this.metadata(key, stats) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async signedUrl(): Promise<string | null> {
+    return null;
+  }
+
+  async *list(prefix: string): AsyncIterable<string> {
+    const dir = this.resolve(prefix);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir, { recursive: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries.sort()) {
+      if (entry.endsWith(".tmp")) continue;
+      const key = `${prefix}/${entry.split(path.sep).join("/")}`;
+      if ((await fs.stat(this.resolve(key))).isFile()) yield key;
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const name = (error as { name?: string })?.name;
+  return name === "NotFound" || name === "NoSuchKey";
+}
+
+// Any S3-compatible bucket: AWS, Cloudflare R2, or MinIO for local testing
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+
+  constructor(private options: typeof config.blobStore.s3) {
+    if (!options.bucket) {
+      throw new Error("S3_BUCKET is required for the s3 blob store");
+    }
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<BlobMetadata> {
+    const result = await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+    return {
+      key,
+      size: body.length,
+      contentType,
+      etag: result.ETag ?? "",
+      lastModified: new Date(),
+    };
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<BlobMetadata> {
+    const { size } = await fs.stat(filePath);
+    const result = await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+    return {
+      key,
+      size,
+      contentType,
+      etag: result.ETag ?? "",
+      lastModified: new Date(),
+    };
+  }
+
+  async get(key: string, range?: ByteRange): Promise<BlobObject | undefined> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      // A ranged response reports the full size after the slash: "bytes 0-99/1234"
+      const totalSize = result.ContentRange ? Number(result.ContentRange.split("/")[1]) : result.ContentLength;
+      return {
+        key,
+        size: totalSize ?? 0,
+        contentType: result.ContentType ?? contentTypeForKey(key),
+        etag: result.ETag ?? "",
+        lastModified: result.LastModified ?? new Date(),
+        stream: result.Body as Readable,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<BlobMetadata | undefined> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType ?? contentTypeForKey(key),
+        etag: result.ETag ?? "",
+        lastModified: result.LastModified ?? new Date(),
+      };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions = {}): Promise<string | null> {
+    const command = new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      ResponseContentDisposition: options.downloadFilename
+        ? `attachment; filename="${options.downloadFilename}"`
+        : undefined,
+    });
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expiresInSeconds ?? config.blobStore.signedUrlTtlSeconds,
+    });
+  }
+
+  async *list(prefix: string): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: `${prefix}/`,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (object.Key) yield object.Key;
+      }
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+  }
+}
+
+export function createBlobStore(driver: string = config.blobStore.driver): BlobStore {
+  switch (driver) {
+    case "local":
+      return new LocalBlobStore(config.blobStore.localDir);
+    case "s3":
+      return new S3BlobStore(config.blobStore.s3);
+    default:
+      throw new Error(`Unknown blob store "${driver}"; use local or s3`);
+  }
+}
+
+export const blobStore = createBlobStore();
+
+export async function readBlob(key: string, store: BlobStore = blobStore): Promise<Buffer> {
+  const object = await store.get(key);
+  if (!object) {
+    throw new Error(`Blob not found: ${key}`);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
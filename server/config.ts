@@ -0,0 +1,168 @@
+import type { UserRole, WatermarkPosition } from "@shared/schema";
+
+function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// Token bucket refilling `perMinute` tokens a minute and holding at most
+// `burst`; null means unlimited
+export type RateLimit = { perMinute: number; burst: number } | null;
+
+// Parses "<per minute>[/<burst>]", e.g. "6/3"; "0" turns the limit off
+function rateLimitFromEnv(value: string | undefined, fallback: string): RateLimit {
+  const [perMinute, burst] = (value || fallback).split("/").map((part) => parseFloat(part));
+  if (!(perMinute > 0)) return null;
+  return { perMinute, burst: burst > 0 ? burst : perMinute };
+}
+
+// ISO timestamp of a date in the environment, or null when unset or invalid
+function dateFromEnv(value: string | undefined): string | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+const replicateToken = process.env.REPLICATE_API_TOKEN || process.env.REPLICATE_TOKEN || "";
+
+// Server-side configuration, read once from the environment at startup
+export const config = {
+  // Base path for deployment, e.g. /mayamann
+  basePath: process.env.BASE_PATH || "",
+
+  // How many generation jobs may call the model at the same time
+  maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || "1", 10),
+  // Queued plus running jobs beyond which new generations are turned away
+  maxPendingJobs: parseInt(process.env.MAX_PENDING_JOBS || "20", 10),
+
+  // Generation requests per client: by signed-in user, with kiosks (visitor
+  // accounts) on the kiosk limit, or by IP for anonymous visitors. API keys
+  // have their own per-key limit.
+  generationLimits: {
+    visitor: rateLimitFromEnv(process.env.RATE_LIMIT_VISITOR, "3/2"),
+    kiosk: rateLimitFromEnv(process.env.RATE_LIMIT_KIOSK, "6/3"),
+    operator: rateLimitFromEnv(process.env.RATE_LIMIT_OPERATOR, "20/5"),
+    admin: rateLimitFromEnv(process.env.RATE_LIMIT_ADMIN, "0"),
+  } satisfies Record<UserRole | "kiosk", RateLimit>,
+
+  // Most outputs a single request may ask for, and what the kiosk asks for
+  maxOutputs: parseInt(process.env.MAX_OUTPUTS || "4", 10),
+  kioskOutputs: parseInt(process.env.KIOSK_NUM_OUTPUTS || "4", 10),
+  // What happens to variants the visitor did not pick: "keep" or "purge"
+  unchosenVariants: process.env.UNCHOSEN_VARIANTS === "purge" ? "purge" : "keep",
+
+  // "replicate" or "mock"; without a Replicate token the offline mock is used
+  imageProvider: process.env.IMAGE_PROVIDER || (replicateToken ? "replicate" : "mock"),
+  replicateToken,
+
+  // Where images and uploads are kept: "local" disk or an S3-compatible bucket
+  blobStore: {
+    driver: process.env.BLOB_STORE === "s3" ? "s3" : "local",
+    localDir: process.env.BLOB_LOCAL_DIR || process.cwd(),
+    // Redirect image requests to short-lived bucket URLs instead of proxying
+    signedUrls: process.env.BLOB_SIGNED_URLS === "true",
+    signedUrlTtlSeconds: parseInt(process.env.BLOB_SIGNED_URL_TTL || "300", 10),
+    s3: {
+      bucket: process.env.S3_BUCKET || "",
+      region: process.env.S3_REGION || "us-east-1",
+      // Set for MinIO and other non-AWS services, usually with path-style URLs
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    },
+  },
+
+  // Physical LED wall output in pixels, and its idle attract loop
+  wall: {
+    width: parseInt(process.env.WALL_WIDTH || "1536", 10),
+    height: parseInt(process.env.WALL_HEIGHT || "2048", 10),
+    idleTimeoutMs: parseInt(process.env.WALL_IDLE_TIMEOUT_MS || "60000", 10),
+    attractIntervalMs: parseInt(process.env.WALL_ATTRACT_INTERVAL_MS || "8000", 10),
+  },
+
+  // Starting prompt policy; admins can change it at runtime
+  promptPolicy: {
+    maxWords: parseInt(process.env.MAX_PROMPT_WORDS || "60", 10),
+    maxChars: parseInt(process.env.MAX_PROMPT_CHARS || "400", 10),
+    blocklist: listFromEnv(process.env.PROMPT_BLOCKLIST, [
+      "nsfw",
+      "nude*",
+      "naked",
+      "porn*",
+      "sex*",
+      "hentai",
+      "gore",
+    ]),
+    brandSafetyPhrases: listFromEnv(process.env.PROMPT_BRAND_SAFETY, []),
+  },
+
+  // Login sessions. Without SESSION_SECRET a random secret is used, so
+  // everyone is signed out whenever the server restarts.
+  auth: {
+    sessionSecret: process.env.SESSION_SECRET || "",
+    sessionTtlHours: parseFloat(process.env.SESSION_TTL_HOURS || "12"),
+    // Account created at startup when missing, e.g. for in-memory storage
+    bootstrapUsername: process.env.ADMIN_USERNAME || "",
+    bootstrapPassword: process.env.ADMIN_PASSWORD || "",
+    // Role of requests without a session, i.e. kiosks. "none" makes every
+    // kiosk sign in (e.g. with a visitor account).
+    anonymousRole: (process.env.ANONYMOUS_ROLE === "none" ? null : "visitor") as UserRole | null,
+  },
+
+  // Bearer token for scripts; callers using it act as an admin
+  adminToken: process.env.ADMIN_TOKEN || "",
+
+  // Hold new images for operator approval before they reach the wall/gallery
+  moderationEnabled: process.env.MODERATION_ENABLED === "true",
+
+  // Fetching provider outputs: size cap, per-attempt timeout and retries
+  download: {
+    maxBytes: parseInt(process.env.DOWNLOAD_MAX_BYTES || String(25 * 1024 * 1024), 10),
+    timeoutMs: parseInt(process.env.DOWNLOAD_TIMEOUT_MS || "60000", 10),
+    retries: parseInt(process.env.DOWNLOAD_RETRIES || "3", 10),
+    retryBaseDelayMs: parseInt(process.env.DOWNLOAD_RETRY_DELAY_MS || "500", 10),
+  },
+
+  // Provenance written into downloaded originals; visitors can still ask
+  // for a stripped copy
+  downloadMetadata: {
+    embed: process.env.DOWNLOAD_METADATA !== "false",
+    eventName: process.env.EVENT_NAME || "MM29",
+  },
+
+  // QR share links: how long a token works, and the public origin phones
+  // reach the app on (the kiosk's own address is often localhost)
+  share: {
+    ttlHours: parseFloat(process.env.SHARE_TTL_HOURS || "24"),
+    baseUrl: (process.env.SHARE_BASE_URL || "").replace(/\/$/, ""),
+  },
+
+  // Starting watermark for downloads and share images; admins can change it
+  // and upload a logo at runtime
+  watermark: {
+    enabled: process.env.WATERMARK_ENABLED === "true",
+    logoKey: null as string | null,
+    position: (process.env.WATERMARK_POSITION || "bottom-right") as WatermarkPosition,
+    opacity: parseFloat(process.env.WATERMARK_OPACITY || "0.8"),
+    margin: parseFloat(process.env.WATERMARK_MARGIN || "0.03"),
+    logoWidth: parseFloat(process.env.WATERMARK_LOGO_WIDTH || "0.18"),
+    text: process.env.WATERMARK_TEXT || "",
+  },
+
+  // Starting spend settings: the provider's price per second of compute
+  // (Replicate bills prediction time) and budgets in USD, 0 for none.
+  // Budget days follow budgetTimeZone.
+  budget: {
+    costPerSecond: parseFloat(process.env.COST_PER_PREDICT_SECOND || "0.001525"),
+    dailyLimit: parseFloat(process.env.BUDGET_DAILY_USD || "0") || null,
+    eventLimit: parseFloat(process.env.BUDGET_EVENT_USD || "0") || null,
+    eventStartsAt: dateFromEnv(process.env.EVENT_STARTS_AT),
+  },
+  budgetTimeZone: process.env.BUDGET_TIMEZONE || "UTC",
+
+  // Synthetic timing for the mock provider
+  mock: {
+    steps: parseInt(process.env.MOCK_STEPS || "28", 10),
+    stepDelayMs: parseInt(process.env.MOCK_STEP_DELAY_MS || "100", 10),
+  },
+};
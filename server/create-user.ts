@@ -0,0 +1,61 @@
+import { createInterface } from "readline/promises";
+import { db } from "./db";
+import { storage } from "./storage";
+import { hashPassword } from "./passwords";
+import { userRoles, type UserRole } from "@shared/schema";
+
+// Creates an account, or resets the password of an existing
+// one:
+//
+//   npm run users:create -- <username> [--role visitor|operator|admin]
+//
+// New users are operators unless a role is given; a reset keeps the user's
+// role unless one is given. The password is read from USER_PASSWORD or
+// prompted for on stdin, so it never ends up in shell history.
+async function readPassword(): Promise<string> {
+  if (process.env.USER_PASSWORD) return process.env.USER_PASSWORD;
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await rl.question("Password: ");
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const roleIndex = args.indexOf("--role");
+  const role = roleIndex >= 0 ? args.splice(roleIndex, 2)[1] : undefined;
+  const username = args[0]?.trim();
+  if (!username || (role !== undefined && !userRoles.includes(role as UserRole))) {
+    console.error(`Usage: npm run users:create -- <username> [--role ${userRoles.join("|")}]`);
+    process.exit(1);
+  }
+  if (!db) {
+    console.error("DATABASE_URL is not set; users would only exist in this process");
+    process.exit(1);
+  }
+
+  const password = await readPassword();
+  if (password.length < 8) {
+    console.error("Password must be at least 8 characters");
+    process.exit(1);
+  }
+
+  const passwordHash = await hashPassword(password);
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    const updated = await storage.updateUser(existing.id, { passwordHash, ...(role && { role: role as UserRole }) });
+    console.log(`Reset password for ${username} (${updated?.role})`);
+  } else {
+    const created = await storage.createUser({ username, passwordHash, role: (role as UserRole | undefined) ?? "operator" });
+    console.log(`Created user ${username} (${created.role})`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Creating user failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,13 @@
+import { Pool } from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Only connect when a database has been provisioned; otherwise the app
+// falls back to in-memory storage (see storage.ts).
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db: Database | undefined = pool ? drizzle(pool, { schema }) : undefined;
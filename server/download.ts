@@ -0,0 +1,134 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { createWriteStream } from "fs";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import { config } from "./config";
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+export const IMAGE_FORMATS: Record<ImageFormat, { mimeType: string; extension: string }> = {
+  png: { mimeType: "image/png", extension: ".png" },
+  jpeg: { mimeType: "image/jpeg", extension: ".jpg" },
+  webp: { mimeType: "image/webp", extension: ".webp" },
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Identifies an image from its first bytes rather than trusting headers
+export function sniffImageFormat(header: Buffer): ImageFormat | undefined {
+  if (header.subarray(0, 8).equals(PNG_SIGNATURE)) return "png";
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return "jpeg";
+  if (header.toString("ascii", 0, 4) === "RIFF" && header.toString("ascii", 8, 12) === "WEBP") return "webp";
+  return undefined;
+}
+
+// Retryable errors are transient (network, timeout, 5xx); the rest mean the
+// provider handed us something we will never accept
+export class DownloadError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+// A verified download sitting in a temp file, ready to move into storage.
+// The caller owns tempPath and must remove it.
+export type DownloadedImage = {
+  tempPath: string;
+  size: number;
+  sha256: string;
+  format: ImageFormat;
+};
+
+async function readHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(12);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function attemptDownload(url: string, signal?: AbortSignal): Promise<DownloadedImage> {
+  const { maxBytes, timeoutMs } = config.download;
+  const timeout = AbortSignal.timeout(timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+  } catch (error) {
+    throw new DownloadError(`Failed to download image: ${error instanceof Error ? error.message : error}`, true);
+  }
+  if (!response.ok) {
+    const retryable = response.status >= 500 || response.status === 429;
+    throw new DownloadError(`Failed to download image: ${response.status} ${response.statusText}`, retryable);
+  }
+
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (contentType && !contentType.startsWith("image/") && contentType !== "application/octet-stream") {
+    throw new DownloadError(`Expected an image but the provider sent ${contentType}`, false);
+  }
+  const declaredSize = Number(response.headers.get("content-length") ?? NaN);
+  if (declaredSize > maxBytes) {
+    throw new DownloadError(`Image is ${declaredSize} bytes; the limit is ${maxBytes}`, false);
+  }
+  if (!response.body) {
+    throw new DownloadError("Provider returned an empty response", true);
+  }
+
+  // Stream to disk while hashing and counting, stopping at the size cap
+  const tempPath = path.join(os.tmpdir(), `mm29-${randomUUID()}.download`);
+  const hash = createHash("sha256");
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        return callback(new DownloadError(`Image exceeds the ${maxBytes} byte limit`, false));
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(Readable.fromWeb(response.body as ReadableStream), meter, createWriteStream(tempPath));
+
+    if (!Number.isNaN(declaredSize) && size !== declaredSize) {
+      throw new DownloadError(`Download truncated at ${size} of ${declaredSize} bytes`, true);
+    }
+    const format = sniffImageFormat(await readHeader(tempPath));
+    if (!format) {
+      throw new DownloadError("Downloaded file is not a PNG, JPEG or WebP image", false);
+    }
+    return { tempPath, size, sha256: hash.digest("hex"), format };
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    if (error instanceof DownloadError) throw error;
+    throw new DownloadError(`Download interrupted: ${error instanceof Error ? error.message : error}`, true);
+  }
+}
+
+// Downloads a provider output into a verified temp file, retrying transient
+// failures with exponential backoff. Cancelling the job stops retries.
+export async function downloadImage(url: string, signal?: AbortSignal): Promise<DownloadedImage> {
+  const { retries, retryBaseDelayMs } = config.download;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptDownload(url, signal);
+    } catch (error) {
+      const retryable = error instanceof DownloadError && error.retryable && !signal?.aborted;
+      if (!retryable || attempt >= retries) throw error;
+
+      const delay = retryBaseDelayMs * 2 ** attempt;
+      console.warn(`Download attempt ${attempt + 1} failed (${error.message}); retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
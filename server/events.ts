@@ -0,0 +1,79 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { GeneratedImage, JobProgressEvent } from "@shared/schema";
+
+// Process-wide bus for job lifecycle events
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Latest event per job so late subscribers start from the current state
+const lastJobEvents = new Map<string, JobProgressEvent>();
+const TERMINAL_EVENT_TTL = 5 * 60 * 1000;
+
+export function publishJobEvent(event: JobProgressEvent) {
+  lastJobEvents.set(event.jobId, event);
+  if (event.stage === "saved" || event.stage === "failed") {
+    setTimeout(() => {
+      if (lastJobEvents.get(event.jobId) === event) {
+        lastJobEvents.delete(event.jobId);
+      }
+    }, TERMINAL_EVENT_TTL).unref();
+  }
+  jobEvents.emit(event.jobId, event);
+}
+
+export function getLastJobEvent(jobId: string): JobProgressEvent | undefined {
+  return lastJobEvents.get(jobId);
+}
+
+export function subscribeToJob(jobId: string, listener: (event: JobProgressEvent) => void) {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+// Images ready for the LED wall, pushed to every connected wall display.
+// Only approved images are ever published; pulling an image from display
+// sends its id so walls can drop it.
+const wallEvents = new EventEmitter();
+wallEvents.setMaxListeners(0);
+
+export function publishWallImage(image: GeneratedImage) {
+  if (image.approvalStatus !== "approved") return;
+  wallEvents.emit("image", image);
+}
+
+export function publishWallRemoval(imageId: string) {
+  wallEvents.emit("removed", imageId);
+}
+
+export function subscribeToWall(
+  onImage: (image: GeneratedImage) => void,
+  onRemoved: (imageId: string) => void,
+) {
+  wallEvents.on("image", onImage);
+  wallEvents.on("removed", onRemoved);
+  return () => {
+    wallEvents.off("image", onImage);
+    wallEvents.off("removed", onRemoved);
+  };
+}
+
+// Switches a response into a Server-Sent Events stream. Returns a function
+// that writes one named event; a comment heartbeat keeps proxies from
+// closing idle connections.
+export function openEventStream(req: Request, res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+  req.on("close", () => clearInterval(heartbeat));
+
+  return (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
@@ -0,0 +1,239 @@
+import fs from "fs/promises";
+import path from "path";
+import { storage } from "./storage";
+import { config } from "./config";
+import { outputSeed, provider } from "./providers";
+import { publishWallImage, publishWallRemoval } from "./events";
+import { createVariants, removeVariants } from "./variants";
+import { blobStore, readBlob } from "./blob-store";
+import { IMAGE_FORMATS, downloadImage, type ImageFormat } from "./download";
+import { recordJobCost } from "./spend";
+import type { GeneratedImage, GenerateImageRequest, GenerationJob, JobStage, PublicImage, Style } from "@shared/schema";
+
+// Blob store key prefixes for generated images and visitor uploads
+export const IMAGES_PREFIX = "generated_images";
+export const REFERENCES_PREFIX = "reference_images";
+
+export function imageKey(filename: string): string {
+  return `${IMAGES_PREFIX}/${filename}`;
+}
+
+export function toPublicImage(image: GeneratedImage): PublicImage {
+  const { moderatedBy: _moderatedBy, apiKeyId: _apiKeyId, ...publicImage } = image;
+  return publicImage;
+}
+
+// Public URL of an image's original file; ?variant= selects a display copy
+export function imageFileUrl(id: string): string {
+  return `${config.basePath}/api/images/${id}/file`;
+}
+
+// Lowercase, hyphenated prompt text that is safe in filenames
+function promptSlug(prompt: string): string {
+  return prompt
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .substring(0, 50);
+}
+
+// Name a visitor's browser saves the original under
+export function downloadFilename(image: GeneratedImage): string {
+  const slug = promptSlug(image.prompt) || "generated-image";
+  return `MM29-${slug}${path.posix.extname(image.storageKey)}`;
+}
+
+export class InvalidGenerationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidGenerationInputError";
+  }
+}
+
+// Prepends the style's trigger word unless the prompt already contains it
+export function applyTriggerWord(prompt: string, triggerWord: string | null): string {
+  if (!triggerWord) return prompt;
+  const escaped = triggerWord.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}(\\W|$)`, "i").test(prompt) ? prompt : `${triggerWord} ${prompt}`;
+}
+
+// Loads the base image, mask and style a request points at
+export async function resolveGenerationInputs(
+  { referenceImageId, sourceImageId, maskId, styleId }: GenerateImageRequest,
+): Promise<{ image?: Buffer; mask?: Buffer; style?: Style }> {
+  let style: Style | undefined;
+  if (styleId) {
+    style = await storage.getStyle(styleId);
+    if (!style || !style.active) {
+      throw new InvalidGenerationInputError("Style not found");
+    }
+  }
+
+  let imageKey: string | undefined;
+  if (referenceImageId) {
+    const reference = await storage.getReferenceImage(referenceImageId);
+    if (!reference || reference.kind !== "image") {
+      throw new InvalidGenerationInputError("Reference image not found");
+    }
+    imageKey = reference.storageKey;
+  } else if (sourceImageId) {
+    const source = await storage.getImageById(sourceImageId);
+    if (!source) {
+      throw new InvalidGenerationInputError("Source image not found");
+    }
+    imageKey = source.storageKey;
+  }
+
+  let maskKey: string | undefined;
+  if (maskId) {
+    const mask = await storage.getReferenceImage(maskId);
+    if (!mask || mask.kind !== "mask") {
+      throw new InvalidGenerationInputError("Mask not found");
+    }
+    maskKey = mask.storageKey;
+  }
+
+  return {
+    image: imageKey ? await readBlob(imageKey) : undefined,
+    mask: maskKey ? await readBlob(maskKey) : undefined,
+    style,
+  };
+}
+
+function generateFilename(prompt: string, variant?: number, format: ImageFormat = "png"): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const sanitizedPrompt = promptSlug(prompt);
+  const suffix = variant === undefined ? '' : `-${variant}`;
+  return `${timestamp}_${sanitizedPrompt}${suffix}${IMAGE_FORMATS[format].extension}`;
+}
+
+export type ProgressCallback = (
+  stage: Extract<JobStage, "starting" | "generating" | "downloading">,
+  progress?: number | null,
+) => void;
+
+// Runs the configured provider, downloads every output and records them in
+// storage. Multi-output batches are saved unchosen, sharing the job id as
+// their batchId.
+export async function generateImages(
+  request: GenerateImageRequest,
+  job: Pick<GenerationJob, "id" | "apiKeyId">,
+  onProgress: ProgressCallback = () => {},
+  signal?: AbortSignal,
+): Promise<GeneratedImage[]> {
+  const { prompt, seed, numOutputs = 1, promptStrength } = request;
+  onProgress("starting");
+  const { image, mask, style } = await resolveGenerationInputs(request);
+  const lora = style && {
+    weights: style.weights,
+    scale: style.loraScale,
+    extraLora: style.extraLora,
+    extraScale: style.extraLoraScale,
+  };
+
+  const startedAt = Date.now();
+  const result = await provider.generate({
+    prompt: applyTriggerWord(prompt, style?.triggerWord ?? null),
+    seed,
+    numOutputs,
+    image,
+    mask,
+    promptStrength,
+    lora,
+  }, {
+    signal,
+    onProgress: (progress) => onProgress("generating", progress),
+  });
+  const durationMs = Date.now() - startedAt;
+  // Charged whether or not the downloads succeed. Without a reported predict
+  // time, the wall-clock time overestimates rather than missing the spend.
+  await recordJobCost(job.id, result.predictSeconds ?? durationMs / 1000);
+
+  onProgress("downloading");
+  const isBatch = result.outputs.length > 1;
+  const savedImages: GeneratedImage[] = [];
+
+  for (let index = 0; index < result.outputs.length; index++) {
+    const imageUrl = result.outputs[index];
+
+    // Download and verify, then move into the blob store under a name that
+    // matches the actual format
+    const downloaded = await downloadImage(imageUrl, signal);
+    const filename = generateFilename(prompt, isBatch ? index + 1 : undefined, downloaded.format);
+    const storageKey = imageKey(filename);
+    try {
+      await blobStore.putFile(storageKey, downloaded.tempPath, IMAGE_FORMATS[downloaded.format].mimeType);
+    } finally {
+      await fs.rm(downloaded.tempPath, { force: true });
+    }
+
+    const saved = await storage.saveGeneratedImage({
+      prompt,
+      // Replaced below once the row has an id to address it by
+      imageUrl: "",
+      storageKey,
+      fileSize: downloaded.size,
+      sha256: downloaded.sha256,
+      resolution: result.params.aspectRatio,
+      modelUsed: result.params.model,
+      // The seed this output was rendered with, so remixes and embedded
+      // metadata reproduce it rather than the batch's first image
+      generationParams: {
+        ...result.params,
+        seed: result.params.seed === null ? null : outputSeed(result.params.seed, index),
+      },
+      predictionId: result.predictionId,
+      durationMs,
+      status: "succeeded",
+      batchId: job.id,
+      chosen: !isBatch,
+      sourceImageId: request.sourceImageId ?? null,
+      referenceImageId: request.referenceImageId ?? null,
+      maskId: request.maskId ?? null,
+      styleId: request.styleId ?? null,
+      apiKeyId: job.apiKeyId,
+      approvalStatus: config.moderationEnabled ? "pending" : "approved",
+    });
+
+    const savedImage = (await storage.updateImage(saved.id, { imageUrl: imageFileUrl(saved.id) })) ?? saved;
+    console.log("Saved image data:", JSON.stringify(savedImage, null, 2));
+    await createVariants(savedImage);
+    savedImages.push(savedImage);
+  }
+
+  if (job.apiKeyId) {
+    await storage.recordApiKeyUsage(job.apiKeyId, { images: savedImages.length });
+  }
+  return savedImages;
+}
+
+// Removes an image with its display variants and file; share links and
+// moderation history go with the row
+export async function deleteImage(image: GeneratedImage): Promise<void> {
+  await removeVariants(image);
+  await storage.deleteImage(image.id);
+  await blobStore.delete(image.storageKey);
+  if (image.approvalStatus === "approved") publishWallRemoval(image.id);
+}
+
+// Marks one variant of a batch as the visitor's pick. Depending on
+// configuration the other variants are kept (unchosen) or deleted.
+export async function chooseVariant(image: GeneratedImage): Promise<GeneratedImage> {
+  const chosen = (await storage.updateImage(image.id, { chosen: true })) ?? image;
+
+  if (image.batchId) {
+    await storage.updateJob(image.batchId, { imageId: image.id });
+
+    if (config.unchosenVariants === "purge") {
+      const siblings = await storage.getImagesByBatch(image.batchId);
+      for (const sibling of siblings) {
+        if (sibling.id === image.id) continue;
+        await deleteImage(sibling);
+      }
+    }
+  }
+
+  publishWallImage(chosen);
+  return chosen;
+}
@@ -0,0 +1,304 @@
+import sharp from "sharp";
+import { config } from "./config";
+import { sniffImageFormat } from "./download";
+import { decodeTextChunks, encodeTextChunk, isMetadataChunk, readChunks, writeChunks } from "./png";
+import type { GeneratedImage } from "@shared/schema";
+
+// What a downloaded file records about how it was made
+export type EmbeddedMetadata = {
+  imageId: string;
+  prompt: string;
+  seed: number | null;
+  model: string | null;
+  modelVersion: string | null;
+  event: string;
+  createdAt: string;
+};
+
+export function metadataFor(image: GeneratedImage): EmbeddedMetadata {
+  return {
+    imageId: image.id,
+    prompt: image.prompt,
+    seed: image.generationParams?.seed ?? null,
+    model: image.generationParams?.model ?? image.modelUsed,
+    modelVersion: image.generationParams?.modelVersion ?? null,
+    event: config.downloadMetadata.eventName,
+    createdAt: image.generatedAt.toISOString(),
+  };
+}
+
+// PNG text keywords; the standard ones are shown by most image viewers
+const PNG_KEYWORDS: Record<keyof EmbeddedMetadata, string> = {
+  imageId: "mm29:ImageId",
+  prompt: "Description",
+  seed: "mm29:Seed",
+  model: "mm29:Model",
+  modelVersion: "mm29:ModelVersion",
+  event: "mm29:Event",
+  createdAt: "Creation Time",
+};
+
+function definedEntries(metadata: EmbeddedMetadata): [keyof EmbeddedMetadata, string][] {
+  return (Object.keys(PNG_KEYWORDS) as (keyof EmbeddedMetadata)[])
+    .filter((field) => metadata[field] !== null)
+    .map((field) => [field, String(metadata[field])]);
+}
+
+function parseFields(values: Partial<Record<keyof EmbeddedMetadata, string>>): Partial<EmbeddedMetadata> | null {
+  if (Object.keys(values).length === 0) return null;
+  const { seed, ...rest } = values;
+  return { ...rest, ...(seed !== undefined && { seed: Number(seed) }) };
+}
+
+// PNG: text chunks go right after IHDR, replacing any from an earlier embed
+function embedPng(png: Buffer, metadata: EmbeddedMetadata): Buffer {
+  const keywords = new Set(Object.values(PNG_KEYWORDS));
+  const chunks = readChunks(png).filter(
+    (chunk) => !isMetadataChunk(chunk) || !keywords.has(chunk.data.toString("latin1", 0, chunk.data.indexOf(0))),
+  );
+  const text = definedEntries(metadata).map(([field, value]) => encodeTextChunk(PNG_KEYWORDS[field], value));
+  return writeChunks([chunks[0], ...text, ...chunks.slice(1)]);
+}
+
+function readPng(png: Buffer): Partial<EmbeddedMetadata> | null {
+  const entries = decodeTextChunks(readChunks(png));
+  const values: Partial<Record<keyof EmbeddedMetadata, string>> = {};
+  for (const [field, keyword] of Object.entries(PNG_KEYWORDS) as [keyof EmbeddedMetadata, string][]) {
+    if (entries[keyword] !== undefined) values[field] = entries[keyword];
+  }
+  return parseFields(values);
+}
+
+// XMP, for JPEG and WebP
+
+const XMP_NAMESPACE = "urn:mm29:metadata:1.0/";
+
+// XMP property names for the fields without a Dublin Core / XMP equivalent
+const XMP_PROPERTIES: Partial<Record<keyof EmbeddedMetadata, string>> = {
+  imageId: "mm29:ImageId",
+  seed: "mm29:Seed",
+  model: "mm29:Model",
+  modelVersion: "mm29:ModelVersion",
+  event: "mm29:Event",
+  createdAt: "xmp:CreateDate",
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+function buildXmp(metadata: EmbeddedMetadata): string {
+  const attributes = definedEntries(metadata)
+    .filter(([field]) => XMP_PROPERTIES[field])
+    .map(([field, value]) => `\n    ${XMP_PROPERTIES[field]}="${escapeXml(value)}"`)
+    .join("");
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:mm29="${XMP_NAMESPACE}"${attributes}>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+}
+
+function parseXmp(xmp: string): Partial<EmbeddedMetadata> | null {
+  if (!xmp.includes(XMP_NAMESPACE)) return null;
+  const values: Partial<Record<keyof EmbeddedMetadata, string>> = {};
+  for (const [field, property] of Object.entries(XMP_PROPERTIES) as [keyof EmbeddedMetadata, string][]) {
+    const match = xmp.match(new RegExp(`${property}="([^"]*)"`));
+    if (match) values[field] = unescapeXml(match[1]);
+  }
+  const description = xmp.match(/<dc:description>\s*<rdf:Alt>\s*<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+  if (description) values.prompt = unescapeXml(description[1]);
+  return parseFields(values);
+}
+
+// JPEG: XMP lives in an APP1 segment identified by the Adobe namespace
+
+const JPEG_XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP13 = 0xed;
+const JPEG_COMMENT = 0xfe;
+const JPEG_START_OF_SCAN = 0xda;
+
+type JpegSegment = { marker: number; data: Buffer };
+
+// Splits a JPEG into its header segments and everything from the first scan
+function readJpeg(jpeg: Buffer): { segments: JpegSegment[]; scan: Buffer } {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === JPEG_START_OF_SCAN) break;
+    const length = jpeg.readUInt16BE(offset + 2);
+    segments.push({ marker, data: jpeg.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, scan: jpeg.subarray(offset) };
+}
+
+function writeJpeg(segments: JpegSegment[], scan: Buffer): Buffer {
+  const encoded = segments.map(({ marker, data }) => {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(data.length + 2, 2);
+    return Buffer.concat([header, data]);
+  });
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), ...encoded, scan]);
+}
+
+function isJpegXmp(segment: JpegSegment): boolean {
+  return segment.marker === JPEG_APP1 && segment.data.subarray(0, JPEG_XMP_HEADER.length).equals(JPEG_XMP_HEADER);
+}
+
+function embedJpeg(jpeg: Buffer, metadata: EmbeddedMetadata): Buffer {
+  const { segments, scan } = readJpeg(jpeg);
+  const kept = segments.filter((segment) => !isJpegXmp(segment));
+  const xmp = { marker: JPEG_APP1, data: Buffer.concat([JPEG_XMP_HEADER, Buffer.from(buildXmp(metadata), "utf8")]) };
+  // A JFIF APP0 has to stay the first segment
+  const at = kept[0]?.marker === JPEG_APP0 ? 1 : 0;
+  return writeJpeg([...kept.slice(0, at), xmp, ...kept.slice(at)], scan);
+}
+
+// Drops Exif/XMP (APP1), Photoshop/IPTC (APP13) and comments; the colour
+// profile (APP2) stays so the image still looks right
+function stripJpeg(jpeg: Buffer): Buffer {
+  const { segments, scan } = readJpeg(jpeg);
+  const removed = new Set([JPEG_APP1, JPEG_APP13, JPEG_COMMENT]);
+  return writeJpeg(segments.filter((segment) => !removed.has(segment.marker)), scan);
+}
+
+function readJpegXmp(jpeg: Buffer): Partial<EmbeddedMetadata> | null {
+  const segment = readJpeg(jpeg).segments.find(isJpegXmp);
+  return segment ? parseXmp(segment.data.subarray(JPEG_XMP_HEADER.length).toString("utf8")) : null;
+}
+
+// WebP: a RIFF container; XMP needs the extended (VP8X) header with its flag set
+
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_ALPHA_FLAG = 0x10;
+
+type RiffChunk = { type: string; data: Buffer };
+
+function readWebp(webp: Buffer): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = webp.toString("latin1", offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    chunks.push({ type, data: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeWebp(chunks: RiffChunk[]): Buffer {
+  const encoded = chunks.map(({ type, data }) => {
+    const header = Buffer.alloc(8);
+    header.write(type, 0, "latin1");
+    header.writeUInt32LE(data.length, 4);
+    return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+  });
+  const body = Buffer.concat(encoded);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+function withWebpFlags(chunk: RiffChunk, set: number, clear: number): RiffChunk {
+  const data = Buffer.from(chunk.data);
+  data[0] = (data[0] | set) & ~clear;
+  return { type: chunk.type, data };
+}
+
+async function embedWebp(webp: Buffer, metadata: EmbeddedMetadata): Promise<Buffer> {
+  let chunks = readWebp(webp).filter((chunk) => chunk.type !== "XMP ");
+  if (chunks[0]?.type === "VP8X") {
+    chunks[0] = withWebpFlags(chunks[0], WEBP_XMP_FLAG, 0);
+  } else {
+    // Simple (VP8/VP8L) files get an extended header carrying the canvas size
+    const { width, height, hasAlpha } = await sharp(webp).metadata();
+    const header = Buffer.alloc(10);
+    header[0] = WEBP_XMP_FLAG | (hasAlpha ? WEBP_ALPHA_FLAG : 0);
+    header.writeUIntLE(width - 1, 4, 3);
+    header.writeUIntLE(height - 1, 7, 3);
+    chunks = [{ type: "VP8X", data: header }, ...chunks];
+  }
+  chunks.push({ type: "XMP ", data: Buffer.from(buildXmp(metadata), "utf8") });
+  return writeWebp(chunks);
+}
+
+function stripWebp(webp: Buffer): Buffer {
+  const chunks = readWebp(webp).filter((chunk) => chunk.type !== "XMP " && chunk.type !== "EXIF");
+  if (chunks[0]?.type === "VP8X") {
+    chunks[0] = withWebpFlags(chunks[0], 0, WEBP_XMP_FLAG | WEBP_EXIF_FLAG);
+  }
+  return writeWebp(chunks);
+}
+
+function readWebpXmp(webp: Buffer): Partial<EmbeddedMetadata> | null {
+  const chunk = readWebp(webp).find((candidate) => candidate.type === "XMP ");
+  return chunk ? parseXmp(chunk.data.toString("utf8")) : null;
+}
+
+// Writes provenance into an original without re-encoding its pixels
+export async function embedMetadata(data: Buffer, metadata: EmbeddedMetadata): Promise<Buffer> {
+  switch (sniffImageFormat(data)) {
+    case "png":
+      return embedPng(data, metadata);
+    case "jpeg":
+      return embedJpeg(data, metadata);
+    case "webp":
+      return embedWebp(data, metadata);
+    default:
+      throw new Error("Metadata can only be embedded in PNG, JPEG or WebP files");
+  }
+}
+
+// Removes text, Exif and XMP metadata, whether ours or the provider's
+export function stripMetadata(data: Buffer): Buffer {
+  switch (sniffImageFormat(data)) {
+    case "png":
+      return writeChunks(readChunks(data).filter((chunk) => !isMetadataChunk(chunk)));
+    case "jpeg":
+      return stripJpeg(data);
+    case "webp":
+      return stripWebp(data);
+    default:
+      throw new Error("Metadata can only be stripped from PNG, JPEG or WebP files");
+  }
+}
+
+// Reads back what embedMetadata wrote; null when the file carries none
+export function readEmbeddedMetadata(data: Buffer): Partial<EmbeddedMetadata> | null {
+  switch (sniffImageFormat(data)) {
+    case "png":
+      return readPng(data);
+    case "jpeg":
+      return readJpegXmp(data);
+    case "webp":
+      return readWebpXmp(data);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,153 @@
+import { storage } from "./storage";
+import { config } from "./config";
+import { generateImages, toPublicImage } from "./generation";
+import { publishJobEvent, publishWallImage } from "./events";
+import { log } from "./vite";
+import type { GenerateImageRequest, GenerationJob, PublicJob } from "@shared/schema";
+
+// In-process queue of job ids waiting for a free generation slot
+const queue: string[] = [];
+let running = 0;
+
+// Abort handles for jobs currently talking to the provider
+const inFlight = new Map<string, AbortController>();
+
+// Where a job came from: the API key that asked, recorded on the job and its
+// images, and the signed-in kiosk
+export type JobOrigin = Pick<GenerationJob, "apiKeyId" | "kioskId">;
+
+export function toPublicJob(job: GenerationJob): PublicJob {
+  const { apiKeyId: _apiKeyId, kioskId: _kioskId, ...publicJob } = job;
+  return publicJob;
+}
+
+export async function enqueueGeneration(
+  request: GenerateImageRequest,
+  origin: JobOrigin = { apiKeyId: null, kioskId: null },
+): Promise<GenerationJob> {
+  const job = await storage.createJob({ request, ...origin });
+  queue.push(job.id);
+  drain();
+  return job;
+}
+
+// 1-based position of a job still waiting for a slot, or null once it runs
+export function getQueuePosition(jobId: string): number | null {
+  const index = queue.indexOf(jobId);
+  return index === -1 ? null : index + 1;
+}
+
+// Jobs waiting for or holding a generation slot
+export function getPendingJobCount(): number {
+  return queue.length + running;
+}
+
+function publishQueuePositions() {
+  queue.forEach((jobId, index) => {
+    publishJobEvent({ jobId, stage: "queued", progress: null, queuePosition: index + 1 });
+  });
+}
+
+function drain() {
+  while (running < config.maxConcurrentJobs && queue.length > 0) {
+    const jobId = queue.shift()!;
+    running++;
+    runJob(jobId)
+      .catch((error) => console.error(`Job ${jobId} could not be updated:`, error))
+      .finally(() => {
+        running--;
+        drain();
+      });
+  }
+  publishQueuePositions();
+}
+
+// Cancels a queued or running job. Returns false if it already finished.
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const index = queue.indexOf(jobId);
+  if (index !== -1) {
+    queue.splice(index, 1);
+    await failJob(jobId, "Generation canceled");
+    publishQueuePositions();
+    return true;
+  }
+
+  const controller = inFlight.get(jobId);
+  if (controller) {
+    controller.abort();
+    return true;
+  }
+  return false;
+}
+
+async function failJob(jobId: string, message: string) {
+  await storage.updateJob(jobId, {
+    status: "failed",
+    error: message,
+    completedAt: new Date(),
+  });
+  publishJobEvent({ jobId, stage: "failed", progress: null, queuePosition: null, message });
+}
+
+async function runJob(jobId: string) {
+  const job = await storage.updateJob(jobId, { status: "running", startedAt: new Date() });
+  if (!job) return;
+
+  const controller = new AbortController();
+  inFlight.set(jobId, controller);
+  try {
+    const images = await generateImages(
+      job.request,
+      job,
+      (stage, progress = null) => {
+        publishJobEvent({ jobId, stage, progress, queuePosition: null });
+      },
+      controller.signal,
+    );
+    // A single output is chosen straight away; batches wait for the visitor
+    const image = images.length === 1 ? images[0] : undefined;
+    await storage.updateJob(jobId, {
+      status: "succeeded",
+      imageId: image?.id ?? null,
+      completedAt: new Date(),
+    });
+    publishJobEvent({
+      jobId,
+      stage: "saved",
+      progress: 1,
+      queuePosition: null,
+      image: image && toPublicImage(image),
+      images: images.map(toPublicImage),
+    });
+    if (image) {
+      publishWallImage(image);
+    }
+  } catch (error) {
+    console.error("Generation error:", error);
+    await failJob(jobId, error instanceof Error ? error.message : "Failed to generate image");
+  } finally {
+    inFlight.delete(jobId);
+  }
+}
+
+// Picks up jobs left over from a previous process. Jobs that were mid-flight
+// cannot be resumed, so they are failed; queued ones are run again.
+export async function resumePendingJobs() {
+  const interrupted = await storage.getJobsByStatus("running");
+  for (const job of interrupted) {
+    await storage.updateJob(job.id, {
+      status: "failed",
+      error: "Generation was interrupted by a server restart",
+      completedAt: new Date(),
+    });
+  }
+
+  const pending = await storage.getJobsByStatus("queued");
+  for (const job of pending) {
+    queue.push(job.id);
+  }
+  if (pending.length > 0) {
+    log(`resuming ${pending.length} queued generation job(s)`);
+  }
+  drain();
+}
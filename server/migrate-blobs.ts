@@ -0,0 +1,55 @@
+import { createBlobStore, readBlob } from "./blob-store";
+import { IMAGES_PREFIX, REFERENCES_PREFIX } from "./generation";
+import { VARIANTS_PREFIX } from "./variants";
+import { BRANDING_PREFIX } from "./watermark";
+
+// Copies every generated image, display variant, reference upload and logo from
+// one blob store to another, e.g. before moving a deployment from local disk
+// to S3:
+//
+//   npm run blobs:migrate -- local s3 [--delete]
+//
+// Keys are the same in every store, so database rows need no changes.
+// Objects already in the target with the same size are skipped, so an
+// interrupted run can simply be repeated.
+async function main() {
+  const args = process.argv.slice(2);
+  const deleteSource = args.includes("--delete");
+  const [from, to] = args.filter((arg) => !arg.startsWith("--"));
+  if (!from || !to || from === to) {
+    console.error("Usage: npm run blobs:migrate -- <local|s3> <local|s3> [--delete]");
+    process.exit(1);
+  }
+
+  const source = createBlobStore(from);
+  const target = createBlobStore(to);
+  let copied = 0;
+  let skipped = 0;
+
+  for (const prefix of [IMAGES_PREFIX, VARIANTS_PREFIX, REFERENCES_PREFIX, BRANDING_PREFIX]) {
+    for await (const key of source.list(prefix)) {
+      const [sourceMeta, targetMeta] = await Promise.all([source.head(key), target.head(key)]);
+      if (!sourceMeta) continue;
+
+      if (targetMeta && targetMeta.size === sourceMeta.size) {
+        skipped++;
+      } else {
+        await target.put(key, await readBlob(key, source), sourceMeta.contentType);
+        copied++;
+        console.log(`copied ${key}`);
+      }
+      if (deleteSource) {
+        await source.delete(key);
+      }
+    }
+  }
+
+  console.log(`Done: ${copied} copied, ${skipped} already present${deleteSource ? ", sources deleted" : ""}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Blob migration failed:", error);
+    process.exit(1);
+  });
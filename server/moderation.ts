@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { publishWallImage, publishWallRemoval } from "./events";
+import type { ApprovalStatus, GeneratedImage, ModerationActionType } from "@shared/schema";
+
+const RESULTING_STATUS: Record<ModerationActionType, ApprovalStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  hide: "hidden",
+};
+
+// Applies an operator decision and records it in the audit trail. Approval
+// is what puts an image on the wall; rejecting or hiding an image that was
+// on display takes it back off.
+export async function moderateImage(
+  image: GeneratedImage,
+  action: ModerationActionType,
+  operator: string,
+  note?: string,
+): Promise<GeneratedImage> {
+  const wasApproved = image.approvalStatus === "approved";
+  const moderatedAt = new Date();
+
+  const updated = (await storage.updateImage(image.id, {
+    approvalStatus: RESULTING_STATUS[action],
+    moderatedBy: operator,
+    moderatedAt,
+  })) ?? image;
+  await storage.recordModerationAction({ imageId: image.id, action, operator, note: note ?? null });
+
+  if (updated.approvalStatus === "approved" && !wasApproved) {
+    publishWallImage(updated);
+  } else if (updated.approvalStatus !== "approved" && wasApproved) {
+    publishWallRemoval(updated.id);
+  }
+  return updated;
+}
@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// Stored as "scrypt$N$r$p$<salt>$<hash>" so the cost can be raised later
+// without invalidating existing hashes
+const PREFIX = "scrypt";
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, COST);
+  return [PREFIX, COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// Whether a stored value is one of our hashes rather than a plaintext
+// password left over from before hashing
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "base64");
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
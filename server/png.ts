@@ -0,0 +1,146 @@
+import { deflateSync, inflateSync } from "zlib";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function encodeChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+// Encodes 8-bit RGB pixel data (width * height * 3 bytes) as a PNG
+export function encodeRgbPng(width: number, height: number, pixels: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Every scanline is prefixed with filter type 0 (none)
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    pixels.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    encodeChunk("IHDR", header),
+    encodeChunk("IDAT", deflateSync(raw)),
+    encodeChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export type PngChunk = { type: string; data: Buffer };
+
+// Splits a PNG into its chunks, in file order
+export function readChunks(png: Buffer): PngChunk[] {
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG file");
+  }
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > png.length) {
+      throw new Error(`Truncated ${type} chunk`);
+    }
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return chunks;
+}
+
+export function writeChunks(chunks: PngChunk[]): Buffer {
+  return Buffer.concat([PNG_SIGNATURE, ...chunks.map((chunk) => encodeChunk(chunk.type, chunk.data))]);
+}
+
+// Ancillary chunks that can identify where or when a file was made
+const METADATA_CHUNK_TYPES = new Set(["tEXt", "iTXt", "zTXt", "eXIf", "tIME"]);
+
+export function isMetadataChunk(chunk: PngChunk): boolean {
+  return METADATA_CHUNK_TYPES.has(chunk.type);
+}
+
+// tEXt is Latin-1 only, so anything else goes into an uncompressed UTF-8 iTXt
+export function encodeTextChunk(keyword: string, text: string): PngChunk {
+  if (/^[\x20-\x7e\n]*$/.test(text)) {
+    return { type: "tEXt", data: Buffer.concat([Buffer.from(`${keyword}\0`, "latin1"), Buffer.from(text, "latin1")]) };
+  }
+  // keyword, null, compression flag, compression method, empty language tag
+  // and translated keyword (each null-terminated), then the text
+  return {
+    type: "iTXt",
+    data: Buffer.concat([Buffer.from(`${keyword}\0\0\0\0\0`, "latin1"), Buffer.from(text, "utf8")]),
+  };
+}
+
+// Most text compressed chunks may inflate to, across the whole file. Our
+// own metadata is a few KB; the cap keeps a small crafted chunk (or many of
+// them) from expanding to gigabytes.
+const MAX_INFLATED_TEXT = 64 * 1024;
+
+// Reads every tEXt, zTXt and iTXt chunk as keyword/text pairs
+export function decodeTextChunks(chunks: PngChunk[]): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let inflateBudget = MAX_INFLATED_TEXT;
+  const inflate = (data: Buffer): Buffer => {
+    try {
+      const text = inflateSync(data, { maxOutputLength: Math.max(1, inflateBudget) });
+      inflateBudget -= text.length;
+      return text;
+    } catch (error) {
+      if (error instanceof RangeError) throw new Error("Compressed text in the PNG is too large");
+      throw error;
+    }
+  };
+
+  for (const { type, data } of chunks) {
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd <= 0) continue;
+    const keyword = data.toString("latin1", 0, keywordEnd);
+
+    if (type === "tEXt") {
+      entries[keyword] = data.toString("latin1", keywordEnd + 1);
+    } else if (type === "zTXt") {
+      entries[keyword] = inflate(data.subarray(keywordEnd + 2)).toString("latin1");
+    } else if (type === "iTXt") {
+      const compressed = data[keywordEnd + 1] === 1;
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd < 0) continue;
+      const text = data.subarray(translatedEnd + 1);
+      entries[keyword] = (compressed ? inflate(text) : text).toString("utf8");
+    }
+  }
+  return entries;
+}
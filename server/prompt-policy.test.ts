@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluatePrompt, normalizeWords } from "./prompt-policy";
+import type { PromptPolicy } from "@shared/schema";
+
+const policy: PromptPolicy = {
+  maxWords: 10,
+  maxChars: 80,
+  blocklist: ["nsfw", "nude*", "porn*", "sex*", "hentai", "gore"],
+  brandSafetyPhrases: ["rival cola"],
+};
+
+function blockedTerms(prompt: string): string[] {
+  return evaluatePrompt(prompt, policy).map((violation) => violation.term ?? violation.code);
+}
+
+describe("normalizeWords", () => {
+  it("lowercases and strips accents", () => {
+    assert.deepEqual(normalizeWords("Crème BRÛLÉE"), ["creme", "brulee"]);
+  });
+
+  it("undoes leetspeak inside words", () => {
+    assert.deepEqual(normalizeWords("p0rn s3x h3nt@i"), ["porn", "sex", "hentai"]);
+  });
+
+  it("undoes leetspeak at the ends of words", () => {
+    assert.deepEqual(normalizeWords("nud3 g0r3 5ex $ex"), ["nude", "gore", "sex", "sex"]);
+  });
+
+  it("drops punctuation at the ends of words instead of folding it", () => {
+    assert.deepEqual(normalizeWords("sunset!!! nsfw! (gore)"), ["sunset", "nsfw", "gore"]);
+  });
+
+  it("leaves numbers out rather than turning them into letters", () => {
+    assert.deepEqual(normalizeWords("a 1980s poster"), ["a", "s", "poster"]);
+    assert.deepEqual(normalizeWords("route 66"), ["route"]);
+  });
+
+  it("drops separators inside words", () => {
+    assert.deepEqual(normalizeWords("b.a.d b-a-d"), ["bad", "bad"]);
+  });
+
+  it("joins spelled-out letters", () => {
+    assert.deepEqual(normalizeWords("n u d e statue"), ["nude", "statue"]);
+    assert.deepEqual(normalizeWords("n. u. d. e."), ["nude"]);
+  });
+
+  it("keeps a leading article off spelled-out letters", () => {
+    assert.deepEqual(normalizeWords("a n u d e beach"), ["a", "nude", "beach"]);
+  });
+
+  it("keeps single letters between real words apart", () => {
+    assert.deepEqual(normalizeWords("i am a cat"), ["i", "am", "a", "cat"]);
+  });
+
+  it("keeps wildcards only when asked", () => {
+    assert.deepEqual(normalizeWords("kill*", true), ["kill*"]);
+    assert.deepEqual(normalizeWords("kill*"), ["kill"]);
+  });
+});
+
+describe("evaluatePrompt", () => {
+  it("allows ordinary prompts", () => {
+    assert.deepEqual(evaluatePrompt("a 1980s poster of a sunset!!!", policy), []);
+  });
+
+  it("blocks terms followed by punctuation", () => {
+    assert.deepEqual(blockedTerms("pure gore!"), ["gore"]);
+    assert.deepEqual(blockedTerms("nsfw!"), ["nsfw"]);
+    assert.deepEqual(blockedTerms("hentai!!"), ["hentai"]);
+  });
+
+  it("blocks leetspeak and spaced-out letters", () => {
+    assert.deepEqual(blockedTerms("p0rn"), ["porn*"]);
+    assert.deepEqual(blockedTerms("nud3 beach"), ["nude*"]);
+    assert.deepEqual(blockedTerms("g0r3"), ["gore"]);
+    assert.deepEqual(blockedTerms("5ex"), ["sex*"]);
+    assert.deepEqual(blockedTerms("$ex toys"), ["sex*"]);
+    assert.deepEqual(blockedTerms("n u d e beach"), ["nude*"]);
+    assert.deepEqual(blockedTerms("a n u d e beach"), ["nude*"]);
+  });
+
+  it("leaves numbers alone", () => {
+    assert.deepEqual(blockedTerms("1980s"), []);
+    assert.deepEqual(blockedTerms("route 66"), []);
+  });
+
+  it("matches wildcards within a word only", () => {
+    assert.deepEqual(blockedTerms("nudes"), ["nude*"]);
+    assert.deepEqual(blockedTerms("sussex"), []);
+  });
+
+  it("flags brand-safety phrases as consecutive words", () => {
+    assert.deepEqual(evaluatePrompt("a can of rival cola", policy).map((v) => v.code), ["brand_safety"]);
+    assert.deepEqual(evaluatePrompt("a rival with cola", policy), []);
+  });
+
+  it("enforces word and character limits", () => {
+    const codes = evaluatePrompt(`${"word ".repeat(11)}${"x".repeat(30)}`, policy).map((v) => v.code);
+    assert.deepEqual(codes, ["too_many_words", "too_long"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { storage } from "./storage";
+import { config } from "./config";
+import { promptPolicySchema, type PromptPolicy, type PromptViolation } from "@shared/schema";
+
+const SETTING_KEY = "prompt_policy";
+
+const LEET_MAP: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "9": "g",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+  "|": "i",
+  "+": "t",
+};
+
+// Leetspeak counts anywhere in a word ("p0rn", "5ex", "nud3"), but a word
+// that starts with a number ("1980s", "35mm") is a number, and "!", "|" and
+// "+" at either end are punctuation ("nsfw!"). Words without letters are dropped.
+const LEADING_NUMBER = /^[0-9]{2,}/;
+const EDGE_PUNCTUATION = /^[!|+]+|[!|+]+$/g;
+const LEET_CHARS = /[0-9@$!|+]/g;
+
+function unleet(token: string): string {
+  if (!/[a-z]/.test(token)) return "";
+  return token
+    .replace(LEADING_NUMBER, "")
+    .replace(EDGE_PUNCTUATION, "")
+    .replace(LEET_CHARS, (char) => LEET_MAP[char] ?? "");
+}
+
+// Articles that can lead a run of spelled-out letters ("a n u d e beach")
+const ARTICLES = new Set(["a", "i"]);
+
+// Lowercases, strips accents and undoes leetspeak, then splits into words.
+// Separators inside words ("b.a.d", "b-a-d") are dropped and spelled-out
+// letters ("n u d e") are joined, so neither can be used to dodge the
+// blocklist. Only blocklist terms keep their wildcards.
+export function normalizeWords(text: string, keepWildcards: boolean = false): string[] {
+  const tokens = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/\s+/)
+    .map((token) => token.replace(keepWildcards ? /[^a-z0-9@$!|+*]/g : /[^a-z0-9@$!|+]/g, ""))
+    .filter((token) => token.length > 0);
+
+  const words: string[] = [];
+  let letters: string[] = [];
+  const joinLetters = () => {
+    if (letters.length > 2 && ARTICLES.has(letters[0])) words.push(letters.shift()!);
+    if (letters.length > 0) words.push(letters.join(""));
+    letters = [];
+  };
+  for (const token of tokens) {
+    if (/^[a-z]$/.test(token)) {
+      letters.push(token);
+      continue;
+    }
+    joinLetters();
+    const word = unleet(token).replace(keepWildcards ? /[^a-z*]/g : /[^a-z]/g, "");
+    if (word.length > 0) words.push(word);
+  }
+  joinLetters();
+  return words;
+}
+
+// Compiles a blocklist entry into a regex over the normalized, space-joined
+// prompt. "*" matches within a word, so "kill*" blocks "killer" but not
+// "skill"; multi-word phrases must appear as consecutive words.
+function compileTerm(term: string): RegExp | null {
+  const words = normalizeWords(term, true);
+  if (words.length === 0) return null;
+  const pattern = words
+    .map((word) => word.split("*").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("[a-z]*"))
+    .join(" ");
+  return new RegExp(`(^| )${pattern}( |$)`);
+}
+
+function findMatches(normalizedPrompt: string, terms: string[]): string[] {
+  return terms.filter((term) => compileTerm(term)?.test(normalizedPrompt));
+}
+
+export function countWords(prompt: string): number {
+  return prompt.trim().split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+// Checks a prompt against a policy and lists every rule it breaks
+export function evaluatePrompt(prompt: string, policy: PromptPolicy): PromptViolation[] {
+  const violations: PromptViolation[] = [];
+
+  const words = countWords(prompt);
+  if (words > policy.maxWords) {
+    violations.push({
+      code: "too_many_words",
+      message: `Prompt has ${words} words; the limit is ${policy.maxWords}`,
+    });
+  }
+  if (prompt.length > policy.maxChars) {
+    violations.push({
+      code: "too_long",
+      message: `Prompt has ${prompt.length} characters; the limit is ${policy.maxChars}`,
+    });
+  }
+
+  const normalized = normalizeWords(prompt).join(" ");
+  for (const term of findMatches(normalized, policy.blocklist)) {
+    violations.push({
+      code: "blocked_term",
+      message: "Prompt contains a word that isn't allowed here",
+      term,
+    });
+  }
+  for (const term of findMatches(normalized, policy.brandSafetyPhrases)) {
+    violations.push({
+      code: "brand_safety",
+      message: "Prompt mentions something we can't show at this event",
+      term,
+    });
+  }
+
+  return violations;
+}
+
+let cachedPolicy: PromptPolicy | undefined;
+
+export async function getPromptPolicy(): Promise<PromptPolicy> {
+  if (!cachedPolicy) {
+    const stored = await storage.getSetting<PromptPolicy>(SETTING_KEY);
+    const parsed = promptPolicySchema.safeParse(stored);
+    cachedPolicy = parsed.success ? parsed.data : config.promptPolicy;
+  }
+  return cachedPolicy;
+}
+
+export async function updatePromptPolicy(updates: Partial<PromptPolicy>): Promise<PromptPolicy> {
+  const policy = promptPolicySchema.parse({ ...(await getPromptPolicy()), ...updates });
+  await storage.putSetting(SETTING_KEY, policy);
+  cachedPolicy = policy;
+  return policy;
+}
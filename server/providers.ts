@@ -0,0 +1,330 @@
+import Replicate from "replicate";
+import { createHash, randomInt } from "crypto";
+import { config } from "./config";
+import { encodeRgbPng } from "./png";
+import { MAX_SEED, type GenerationMode, type GenerationParams } from "@shared/schema";
+
+export type ProviderCapabilities = {
+  maxOutputs: number;
+  supportsSeed: boolean;
+  supportsImageToImage: boolean;
+  supportsLora: boolean;
+  reportsProgress: boolean;
+};
+
+export type ProviderDescription = {
+  name: string;
+  model: string;
+  version: string;
+  capabilities: ProviderCapabilities;
+};
+
+export type ProviderInput = {
+  prompt: string;
+  // Omitted to let the provider pick a random seed
+  seed?: number;
+  numOutputs?: number;
+  // Base image for image-to-image, plus an optional inpainting mask
+  image?: Buffer;
+  mask?: Buffer;
+  promptStrength?: number;
+  // LoRA weights from the style registry
+  lora?: ProviderLora;
+};
+
+export type ProviderLora = {
+  weights: string;
+  scale: number;
+  extraLora: string | null;
+  extraScale: number;
+};
+
+function modeOf({ image, mask }: ProviderInput): GenerationMode {
+  if (!image) return "text";
+  return mask ? "inpaint" : "image";
+}
+
+export type ProviderResult = {
+  // URLs the images can be fetched from (data: URLs for local providers)
+  outputs: string[];
+  predictionId: string | null;
+  // Compute time the provider bills for, when it reports one
+  predictSeconds: number | null;
+  params: GenerationParams;
+};
+
+export type ProviderHooks = {
+  // Called once the provider has accepted the request
+  onStart?: (predictionId: string | null) => void;
+  // Fraction (0-1) of model steps completed, or null when unknown
+  onProgress?: (progress: number | null) => void;
+  signal?: AbortSignal;
+};
+
+export interface ImageProvider {
+  describe(): ProviderDescription;
+  generate(input: ProviderInput, hooks?: ProviderHooks): Promise<ProviderResult>;
+  cancel(predictionId: string): Promise<void>;
+}
+
+export class GenerationCanceledError extends Error {
+  constructor() {
+    super("Generation canceled");
+    this.name = "GenerationCanceledError";
+  }
+}
+
+// Replicate logs tqdm-style progress lines, e.g.
+// " 46%|████▌     | 13/28 [00:04<00:05,  2.87it/s]"; the last one wins.
+export function parseProgress(logs: string | undefined | null): number | null {
+  if (!logs) return null;
+  const matches = Array.from(logs.matchAll(/(\d+)\/(\d+) \[/g));
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  const total = parseInt(last[2], 10);
+  return total > 0 ? Math.min(1, parseInt(last[1], 10) / total) : null;
+}
+
+// Multi-output predictions render output `index` with the seed after the
+// previous output's, so each image can be reproduced on its own
+export function outputSeed(seed: number, index: number): number {
+  return (seed + index) % (MAX_SEED + 1);
+}
+
+// Flux-based models log the seed they picked, e.g. "Using seed: 48213"
+export function parseSeed(logs: string | undefined | null): number | null {
+  const match = logs?.match(/Using seed: (\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+const MAYA_29_MODEL = "mayaman/maya-29";
+const MAYA_29_VERSION = "38b7e8b65127f9e6a0c037fce3b86272718e1a423d80ea23c89311d180422b4c";
+
+export class ReplicateProvider implements ImageProvider {
+  private client: Replicate;
+
+  constructor(token: string) {
+    this.client = new Replicate({ auth: token });
+  }
+
+  describe(): ProviderDescription {
+    return {
+      name: "replicate",
+      model: MAYA_29_MODEL,
+      version: MAYA_29_VERSION,
+      capabilities: {
+        maxOutputs: 4,
+        supportsSeed: true,
+        supportsImageToImage: true,
+        supportsLora: true,
+        reportsProgress: true,
+      },
+    };
+  }
+
+  async generate(request: ProviderInput, hooks: ProviderHooks = {}): Promise<ProviderResult> {
+    const { prompt, seed, numOutputs = 1, image, mask, promptStrength = 0.8, lora } = request;
+
+    // Actual Maya-29 model - using exact schema parameters
+    const input = {
+      prompt: prompt,
+      aspect_ratio: "3:4", // 3:4 aspect ratio for LED wall display
+      model: "dev",
+      num_outputs: numOutputs,
+      num_inference_steps: 28,
+      guidance_scale: 3,
+      output_format: "png", // PNG format for LED wall compatibility
+      output_quality: 90, // High quality for LED display
+      prompt_strength: promptStrength,
+      go_fast: false,
+      megapixels: "1",
+      lora_scale: lora?.scale ?? 1,
+      extra_lora_scale: lora?.extraScale ?? 1,
+      disable_safety_checker: false,
+      ...(seed !== undefined && { seed }),
+      ...(lora && { replicate_weights: lora.weights }),
+      ...(lora?.extraLora && { extra_lora: lora.extraLora }),
+    };
+    // Buffers are uploaded by the client and replaced with file URLs
+    let prediction = await this.client.predictions.create({
+      version: MAYA_29_VERSION,
+      input: { ...input, ...(image && { image }), ...(mask && { mask }) },
+    });
+    hooks.onStart?.(prediction.id);
+
+    prediction = await this.client.wait(prediction, { interval: 1000 }, async (current) => {
+      if (current.status === "processing") {
+        hooks.onProgress?.(parseProgress(current.logs));
+      }
+      return hooks.signal?.aborted === true;
+    });
+
+    if (hooks.signal?.aborted) {
+      await this.cancel(prediction.id);
+      throw new GenerationCanceledError();
+    }
+    if (prediction.status === "canceled") {
+      throw new GenerationCanceledError();
+    }
+
+    console.log("Replicate output:", JSON.stringify(prediction.output, null, 2));
+
+    // Handle different output formats from Replicate
+    const output = prediction.output;
+    let outputs: string[];
+    if (Array.isArray(output) && output.length > 0) {
+      outputs = output.map(String);
+    } else if (typeof output === 'string') {
+      outputs = [output];
+    } else {
+      console.error("Unexpected output format:", output);
+      throw new Error("No valid image URL in API response");
+    }
+
+    return {
+      outputs,
+      predictionId: prediction.id,
+      predictSeconds: prediction.metrics?.predict_time ?? null,
+      params: {
+        mode: modeOf(request),
+        provider: "replicate",
+        model: MAYA_29_MODEL,
+        modelVersion: prediction.version || MAYA_29_VERSION,
+        seed: parseSeed(prediction.logs) ?? seed ?? null,
+        prompt,
+        loraWeights: lora?.weights ?? null,
+        extraLora: lora?.extraLora ?? null,
+        aspectRatio: input.aspect_ratio,
+        numInferenceSteps: input.num_inference_steps,
+        guidanceScale: input.guidance_scale,
+        promptStrength: input.prompt_strength,
+        loraScale: input.lora_scale,
+        extraLoraScale: input.extra_lora_scale,
+        outputFormat: input.output_format,
+        outputQuality: input.output_quality,
+        input,
+      },
+    };
+  }
+
+  async cancel(predictionId: string): Promise<void> {
+    await this.client.predictions.cancel(predictionId);
+  }
+}
+
+// Offline provider for development, tests and air-gapped venue setup. It
+// renders a deterministic placeholder PNG from the prompt and reports
+// synthetic step progress.
+export class MockProvider implements ImageProvider {
+  private static readonly WIDTH = 768;
+  private static readonly HEIGHT = 1024;
+
+  constructor(
+    private steps: number = config.mock.steps,
+    private stepDelayMs: number = config.mock.stepDelayMs,
+  ) {}
+
+  describe(): ProviderDescription {
+    return {
+      name: "mock",
+      model: "mock/placeholder",
+      version: "1",
+      capabilities: {
+        maxOutputs: 4,
+        supportsSeed: true,
+        supportsImageToImage: true,
+        supportsLora: true,
+        reportsProgress: true,
+      },
+    };
+  }
+
+  async generate(request: ProviderInput, hooks: ProviderHooks = {}): Promise<ProviderResult> {
+    const { prompt, seed = randomInt(MAX_SEED), numOutputs = 1, image, mask, promptStrength = 0.8, lora } = request;
+    hooks.onStart?.(null);
+
+    for (let step = 1; step <= this.steps; step++) {
+      if (hooks.signal?.aborted) {
+        throw new GenerationCanceledError();
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.stepDelayMs));
+      hooks.onProgress?.(step / this.steps);
+    }
+
+    // The base image and LoRA only nudge the colours, so derived and styled
+    // images differ from plain ones. Later variants continue the seed.
+    const base = createHash("sha256")
+      .update(image ?? "")
+      .update(mask ?? "")
+      .update(lora ? JSON.stringify(lora) : "")
+      .digest("hex");
+    const outputs = Array.from({ length: numOutputs }, (_, index) => {
+      const png = MockProvider.render(base + prompt, outputSeed(seed, index));
+      return `data:image/png;base64,${png.toString("base64")}`;
+    });
+    return {
+      outputs,
+      predictionId: null,
+      // The simulated time, so spend tracking and budgets can be tried offline
+      predictSeconds: (this.steps * this.stepDelayMs) / 1000,
+      params: {
+        mode: modeOf(request),
+        provider: "mock",
+        model: "mock/placeholder",
+        modelVersion: "1",
+        seed,
+        prompt,
+        loraWeights: lora?.weights ?? null,
+        extraLora: lora?.extraLora ?? null,
+        aspectRatio: "3:4",
+        numInferenceSteps: this.steps,
+        guidanceScale: 0,
+        promptStrength,
+        loraScale: lora?.scale ?? 0,
+        extraLoraScale: lora?.extraScale ?? 0,
+        outputFormat: "png",
+        outputQuality: 100,
+        input: { prompt, seed, num_outputs: numOutputs },
+      },
+    };
+  }
+
+  async cancel(): Promise<void> {
+    // Nothing to cancel remotely; generate() checks the abort signal itself
+  }
+
+  // Diagonal two-colour gradient with bands, derived from the prompt and seed
+  static render(prompt: string, seed: number): Buffer {
+    const hash = createHash("sha256").update(`${seed}:${prompt}`).digest();
+    const { WIDTH: width, HEIGHT: height } = MockProvider;
+    const from = [hash[0], hash[1], hash[2]];
+    const to = [hash[3], hash[4], hash[5]];
+    const bands = 4 + (hash[6] % 12);
+
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = (x / width + y / height) / 2;
+        const shade = Math.floor(t * bands) % 2 === 0 ? 1 : 0.85;
+        const offset = (y * width + x) * 3;
+        for (let c = 0; c < 3; c++) {
+          pixels[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * shade);
+        }
+      }
+    }
+    return encodeRgbPng(width, height, pixels);
+  }
+}
+
+export function createProvider(): ImageProvider {
+  switch (config.imageProvider) {
+    case "mock":
+      return new MockProvider();
+    case "replicate":
+      return new ReplicateProvider(config.replicateToken);
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER "${config.imageProvider}"`);
+  }
+}
+
+export const provider = createProvider();
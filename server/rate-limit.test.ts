@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { authenticateApiKey, mintApiKey } from "./api-keys";
+import { rejectRateLimited } from "./rate-limit";
+
+function fakeRequest(headers: Record<string, string>): Request {
+  return {
+    ip: "203.0.113.7",
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+function fakeResponse() {
+  const sent = { status: 200, headers: {} as Record<string, string> };
+  const res = {
+    set: (name: string, value: string) => {
+      sent.headers[name] = value;
+      return res;
+    },
+    status: (code: number) => {
+      sent.status = code;
+      return res;
+    },
+    json: () => res,
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+// Runs a request through API key authentication like the app does for
+// every route, resolving once it is let through or answered
+async function authenticate(req: Request): Promise<number | "next"> {
+  const { res, sent } = fakeResponse();
+  let passed = false;
+  await authenticateApiKey(req, res, () => {
+    passed = true;
+  });
+  return passed ? "next" : sent.status;
+}
+
+describe("API key rate limits", () => {
+  it("don't charge requests that queue nothing", async () => {
+    const { secret } = await mintApiKey({ name: "reports", scopes: ["read"], rateLimit: 2 }, "test");
+    const req = fakeRequest({ authorization: `Bearer ${secret}` });
+    for (let i = 0; i < 5; i++) {
+      assert.equal(await authenticate(req), "next");
+    }
+  });
+
+  it("charge generations to the key", async () => {
+    const { secret } = await mintApiKey({ name: "campaign", scopes: ["generate"], rateLimit: 2 }, "test");
+    const req = fakeRequest({ authorization: `Bearer ${secret}` });
+    assert.equal(await authenticate(req), "next");
+
+    assert.deepEqual([1, 2].map(() => rejectRateLimited(req, fakeResponse().res)), [false, false]);
+    const { res, sent } = fakeResponse();
+    assert.equal(rejectRateLimited(req, res), true);
+    assert.equal(sent.status, 429);
+    assert.equal(sent.headers["Retry-After"], "30");
+  });
+
+  it("keep keys apart", async () => {
+    const first = await mintApiKey({ name: "first", scopes: ["generate"], rateLimit: 1 }, "test");
+    const second = await mintApiKey({ name: "second", scopes: ["generate"], rateLimit: 1 }, "test");
+    const firstReq = fakeRequest({ authorization: `Bearer ${first.secret}` });
+    const secondReq = fakeRequest({ authorization: `Bearer ${second.secret}` });
+    await authenticate(firstReq);
+    await authenticate(secondReq);
+
+    assert.equal(rejectRateLimited(firstReq, fakeResponse().res), false);
+    assert.equal(rejectRateLimited(firstReq, fakeResponse().res), true);
+    assert.equal(rejectRateLimited(secondReq, fakeResponse().res), false);
+  });
+});
@@ -0,0 +1,57 @@
+import type { Request, Response } from "express";
+import { config, type RateLimit } from "./config";
+import { getRole } from "./auth";
+import { getPendingJobCount } from "./jobs";
+import { TokenBucketLimiter } from "./token-bucket";
+
+// How long a client is told to wait when every generation slot is taken
+const BUSY_RETRY_SECONDS = 15;
+
+function sendTooManyRequests(res: Response, retryAfter: number, message: string) {
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({ message, retryAfter });
+}
+
+// Kiosks sign in with a visitor account, so the kiosk a request comes from
+// is proven by its session rather than claimed in a header. Returns the
+// account's username.
+export function getKioskId(req: Request): string | null {
+  return req.user?.role === "visitor" ? req.user.username : null;
+}
+
+// Which bucket a generation request draws from, and its limit
+function generationClient(req: Request): { key: string; limit: RateLimit } {
+  if (req.apiKey) {
+    // A key's bucket holds a minute's worth of requests
+    const { id, rateLimit } = req.apiKey;
+    return { key: `key:${id}`, limit: { perMinute: rateLimit, burst: rateLimit } };
+  }
+  if (req.user) {
+    const limit = getKioskId(req) ? config.generationLimits.kiosk : config.generationLimits[req.user.role];
+    return { key: `user:${req.user.id}`, limit };
+  }
+  const role = getRole(req) ?? "visitor";
+  return { key: `${role}:${req.ip}`, limit: config.generationLimits[role] };
+}
+
+const generationLimiter = new TokenBucketLimiter();
+
+// Called by routes that queue provider calls once the request has passed
+// validation, so rejected requests don't use up the client's allowance.
+// Turns requests away while the queue is full, then charges the client's
+// bucket: the API key's, the signed-in user's or the address's. Returns true
+// when the response has been sent.
+export function rejectRateLimited(req: Request, res: Response): boolean {
+  if (getPendingJobCount() >= config.maxPendingJobs) {
+    sendTooManyRequests(res, BUSY_RETRY_SECONDS, "The generator is busy; try again shortly");
+    return true;
+  }
+  const { key, limit } = generationClient(req);
+  if (!limit) return false;
+  const retryAfter = generationLimiter.take(key, limit);
+  if (retryAfter > 0) {
+    sendTooManyRequests(res, retryAfter, `Too many requests; try again in ${retryAfter} seconds`);
+    return true;
+  }
+  return false;
+}
@@ -1,155 +1,825 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { generateImageRequestSchema } from "@shared/schema";
-import Replicate from "replicate";
-import fs from "fs/promises";
-import path from "path";
-import { createWriteStream } from "fs";
+import { DuplicateStyleNameError, storage } from "./storage";
+import { generateImageRequestSchema, remixImageRequestSchema, loginRequestSchema, createApiKeySchema, budgetSettingsSchema, spendQuerySchema, referenceKinds, insertStyleSchema, updateStyleSchema, promptPolicySchema, watermarkSettingsSchema, moderationRequestSchema, imageSearchSchema, imageVariantNames, type ImageVariantName, approvalStatuses, moderationActionTypes, type ApprovalStatus, type ModerationActionType, type GenerateImageRequest, type GenerationJobStatus, type GeneratedImage, type ImagePage, type KioskSettings, type PublicImage, type ReferenceKind, type SharedImage } from "@shared/schema";
+import { config } from "./config";
+import { REFERENCES_PREFIX, InvalidGenerationInputError, chooseVariant, deleteImage, downloadFilename, imageFileUrl, imageKey, resolveGenerationInputs, toPublicImage } from "./generation";
+import { cancelJob, enqueueGeneration, getQueuePosition, resumePendingJobs, toPublicJob, type JobOrigin } from "./jobs";
+import { provider } from "./providers";
+import { SESSION_COOKIE, canAct, getOperatorName, requireAuth, requirePermission } from "./auth";
+import { moderateImage } from "./moderation";
+import { mintApiKey, toApiKeyInfo } from "./api-keys";
+import { getKioskId, rejectRateLimited } from "./rate-limit";
+import { getBudgetSettings, getBudgetStatus, getSpendSummary, requireBudget, updateBudgetSettings } from "./spend";
+import { getOrCreateShareToken, resolveShareToken, toShareLink } from "./share";
+import { getOrCreateVariant } from "./variants";
+import { blobStore, readBlob, type BlobMetadata, type ByteRange } from "./blob-store";
+import { embedMetadata, metadataFor, readEmbeddedMetadata, stripMetadata } from "./image-metadata";
+import { InvalidWatermarkLogoError, SHARE_OUTPUT, applyWatermark, getWatermarkSettings, isLogoType, isWatermarkActive, removeWatermarkLogo, renderShareImage, saveWatermarkLogo, updateWatermarkSettings } from "./watermark";
+import { evaluatePrompt, getPromptPolicy, updatePromptPolicy } from "./prompt-policy";
+import { getLastJobEvent, openEventStream, subscribeToJob, subscribeToWall } from "./events";
+import { ZodError } from "zod";
+import multer from "multer";
+import passport from "passport";
+import sharp from "sharp";
+import { createHash, randomUUID } from "crypto";
 import { pipeline } from "stream/promises";
 
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN || process.env.REPLICATE_TOKEN || "",
+const REFERENCE_TYPES: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+};
+
+// Image uploads (references for image-to-image and inpainting, files to
+// inspect); held in memory and, for references, written to the blob store
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+  fileFilter: (_req, file, cb) => cb(null, file.mimetype in REFERENCE_TYPES),
+});
+
+// Watermark logos (SVG or PNG) uploaded by admins
+const logoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024, files: 1 },
+  fileFilter: (_req, file, cb) => cb(null, isLogoType(file.mimetype)),
 });
 
-// Ensure generated images directory exists
-const IMAGES_DIR = path.join(process.cwd(), "generated_images");
+// Rejects prompts that break the prompt policy with a structured 422 the
+// kiosk can show. Returns true when the response has been sent.
+async function rejectPromptViolations(prompt: string, res: Response): Promise<boolean> {
+  const violations = evaluatePrompt(prompt, await getPromptPolicy());
+  if (violations.length === 0) return false;
 
-async function ensureImagesDirectory() {
-  try {
-    await fs.access(IMAGES_DIR);
-  } catch {
-    await fs.mkdir(IMAGES_DIR, { recursive: true });
+  res.status(422).json({
+    success: false,
+    message: violations[0].message,
+    violations,
+  });
+  return true;
+}
+
+// Rejects requests the active provider can't carry out. Returns true when
+// the response has been sent.
+function rejectUnsupportedRequest(request: GenerateImageRequest, res: Response): boolean {
+  const { capabilities } = provider.describe();
+  const maxOutputs = Math.min(config.maxOutputs, capabilities.maxOutputs);
+  let message: string | undefined;
+  if ((request.numOutputs ?? 1) > maxOutputs) {
+    message = `At most ${maxOutputs} outputs per request`;
+  } else if ((request.referenceImageId || request.sourceImageId) && !capabilities.supportsImageToImage) {
+    message = "The active provider does not support image-to-image";
+  } else if (request.styleId && !capabilities.supportsLora) {
+    message = "The active provider does not support styles";
   }
+  if (!message) return false;
+
+  res.status(400).json({ success: false, message });
+  return true;
 }
 
-async function downloadImage(url: string, filename: string): Promise<string> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download image: ${response.statusText}`);
+// Who a queued job is attributed to in usage and spend reports
+function jobOrigin(req: Request): JobOrigin {
+  return { apiKeyId: req.apiKey?.id ?? null, kioskId: getKioskId(req) };
+}
+
+type SendBlobOptions = {
+  cacheControl: string;
+  // Sends the blob as an attachment with this name
+  downloadFilename?: string;
+};
+
+// If-Range asks for a partial response only while the blob is unchanged;
+// ETags must match strongly, dates exactly
+function isRangeFresh(req: Request, metadata: Pick<BlobMetadata, "etag" | "lastModified">): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.includes('"')) {
+    return !ifRange.startsWith("W/") && ifRange === metadata.etag;
   }
+  return Date.parse(ifRange) === Math.floor(metadata.lastModified.getTime() / 1000) * 1000;
+}
 
-  const filePath = path.join(IMAGES_DIR, filename);
-  const fileStream = createWriteStream(filePath);
-  
-  if (response.body) {
-    const reader = response.body.getReader();
-    const writer = fileStream;
-    
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        writer.write(value);
-      }
-    } finally {
-      writer.end();
+// Sets caching and type headers, then settles conditional and range
+// requests. Returns null when the response is already finished (304, 416),
+// otherwise the single byte range to send, if one was asked for.
+function beginResponse(
+  req: Request,
+  res: Response,
+  body: Omit<BlobMetadata, "key">,
+  options: SendBlobOptions,
+): { range?: ByteRange } | null {
+  res.setHeader("Cache-Control", options.cacheControl);
+  res.setHeader("Accept-Ranges", "bytes");
+  if (body.etag) res.setHeader("ETag", body.etag);
+  res.setHeader("Last-Modified", body.lastModified.toUTCString());
+  if (req.fresh) {
+    res.status(304).end();
+    return null;
+  }
+
+  if (options.downloadFilename) {
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader("Content-Disposition", `attachment; filename="${options.downloadFilename}"`);
+  } else {
+    res.setHeader("Content-Type", body.contentType);
+  }
+
+  // Multi-range requests are answered with the whole body
+  if (req.headers.range && isRangeFresh(req, body)) {
+    const ranges = req.range(body.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${body.size}`);
+      res.status(416).end();
+      return null;
+    }
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      const range = ranges[0];
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${body.size}`);
+      res.setHeader("Content-Length", range.end - range.start + 1);
+      return { range };
     }
   }
-  
-  return filePath;
+  res.setHeader("Content-Length", body.size);
+  return {};
 }
 
-function generateFilename(prompt: string): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const sanitizedPrompt = prompt
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, '-')
-    .substring(0, 50);
-  return `${timestamp}_${sanitizedPrompt}.png`;
+// Streams a blob from the store with its Content-Type, ETag and
+// Last-Modified, answering conditional requests with 304 and single byte
+// ranges with 206. With signed URLs enabled the client is redirected to the
+// bucket instead. Returns false when the blob does not exist.
+async function sendBlob(req: Request, res: Response, key: string, options: SendBlobOptions): Promise<boolean> {
+  const metadata = await blobStore.head(key);
+  if (!metadata) return false;
+
+  if (config.blobStore.signedUrls) {
+    const url = await blobStore.signedUrl(key, { downloadFilename: options.downloadFilename });
+    if (url) {
+      res.redirect(302, url);
+      return true;
+    }
+  }
+
+  const begun = beginResponse(req, res, metadata, options);
+  if (!begun) return true;
+  const object = await blobStore.get(key, begun.range);
+  if (!object) return false;
+  // Unlike pipe(), pipeline destroys the blob stream when the client goes
+  // away mid-transfer, releasing its file descriptor or S3 socket
+  pipeline(object.stream, res).catch((error) => {
+    if (error?.code !== "ERR_STREAM_PREMATURE_CLOSE") {
+      console.error(`Error streaming ${key}:`, error);
+    }
+  });
+  return true;
+}
+
+// Sends bytes built for this request (such as a download with embedded
+// metadata) with the same caching and range handling as sendBlob
+function sendBuffer(
+  req: Request,
+  res: Response,
+  data: Buffer,
+  body: Pick<BlobMetadata, "contentType" | "lastModified">,
+  options: SendBlobOptions,
+): void {
+  const etag = `"${createHash("sha256").update(data).digest("base64url").slice(0, 27)}"`;
+  const begun = beginResponse(req, res, { ...body, size: data.length, etag }, options);
+  if (!begun) return;
+  res.end(begun.range ? data.subarray(begun.range.start, begun.range.end + 1) : data);
+}
+
+// Sends an original as an attachment, branded with the watermark and with
+// the prompt, seed and model written into the file (or all metadata
+// stripped with ?strip=true)
+async function sendImageDownload(req: Request, res: Response, image: GeneratedImage): Promise<void> {
+  const options = { cacheControl: "no-cache", downloadFilename: downloadFilename(image) };
+  const strip = req.query.strip === 'true';
+  const watermark = await getWatermarkSettings();
+
+  if (!strip && !config.downloadMetadata.embed && !isWatermarkActive(watermark)) {
+    const sent = await sendBlob(req, res, image.storageKey, options);
+    if (!sent) {
+      res.status(404).json({ message: "Image not found" });
+    }
+    return;
+  }
+
+  // Rewritten per request, so never redirected to a signed bucket URL
+  const metadata = await blobStore.head(image.storageKey);
+  if (!metadata) {
+    res.status(404).json({ message: "Image not found" });
+    return;
+  }
+  let data = await readBlob(image.storageKey);
+  if (isWatermarkActive(watermark)) {
+    data = await applyWatermark(data, {}, watermark);
+  }
+  data = strip ? stripMetadata(data) : await embedMetadata(data, metadataFor(image));
+  sendBuffer(req, res, data, metadata, options);
 }
 
+async function sendShareImage(req: Request, res: Response, image: GeneratedImage): Promise<void> {
+  const metadata = await blobStore.head(image.storageKey);
+  if (!metadata) {
+    res.status(404).json({ message: "Image not found" });
+    return;
+  }
+  const data = await renderShareImage(image);
+  // Revalidated so watermark changes show up
+  sendBuffer(req, res, data, { contentType: "image/jpeg", lastModified: metadata.lastModified }, {
+    cacheControl: "public, no-cache",
+  });
+}
+
+const SHARE_ERRORS: Record<"not_found" | "expired" | "revoked", { status: number; message: string }> = {
+  not_found: { status: 404, message: "This link doesn't exist" },
+  expired: { status: 410, message: "This link has expired" },
+  revoked: { status: 410, message: "This link is no longer available" },
+};
+
+function sendShareError(res: Response, error: keyof typeof SHARE_ERRORS): void {
+  const { status, message } = SHARE_ERRORS[error];
+  res.status(status).json({ message, reason: error });
+}
+
+// Reports upload problems (too large, wrong field) as 400s instead of 500s
+function singleFile(uploader: multer.Multer): RequestHandler {
+  return (req, res, next) => {
+    uploader.single("file")(req, res, (error: unknown) => {
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof Error ? error.message : "Upload failed"
+        });
+      }
+      next();
+    });
+  };
+}
+
+const uploadImage = singleFile(upload);
+const uploadLogo = singleFile(logoUpload);
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  await ensureImagesDirectory();
+  await resumePendingJobs();
   
   // Base path for deployment
-  const basePath = process.env.BASE_PATH || '';
-
-  // Generate image endpoint
-  app.post(`${basePath}/api/generate`, async (req, res) => {
-    try {
-      const { prompt } = generateImageRequestSchema.parse(req.body);
-
-      // Call Replicate API with actual Maya-29 model - using exact schema parameters
-      const output = await replicate.run(
-        "mayaman/maya-29:38b7e8b65127f9e6a0c037fce3b86272718e1a423d80ea23c89311d180422b4c",
-        {
-          input: {
-            prompt: prompt,
-            aspect_ratio: "3:4", // 3:4 aspect ratio for LED wall display
-            model: "dev",
-            num_outputs: 1,
-            num_inference_steps: 28,
-            guidance_scale: 3,
-            output_format: "png", // PNG format for LED wall compatibility
-            output_quality: 90, // High quality for LED display
-            prompt_strength: 0.8,
-            go_fast: false,
-            megapixels: "1",
-            lora_scale: 1,
-            extra_lora_scale: 1,
-            disable_safety_checker: false
-          }
-        }
-      );
+  const basePath = config.basePath;
 
-      console.log("Replicate output:", JSON.stringify(output, null, 2));
+  // Generate image endpoint - queues a job and returns immediately
+  app.post(`${basePath}/api/generate`, requirePermission("generate"), requireBudget, async (req, res) => {
+    try {
+      const request = generateImageRequestSchema.parse(req.body);
+      if (await rejectPromptViolations(request.prompt, res)) return;
 
-      // Handle different output formats from Replicate
-      let imageUrl: string;
-      if (Array.isArray(output) && output.length > 0) {
-        imageUrl = output[0];
-      } else if (typeof output === 'string') {
-        imageUrl = output;
-      } else {
-        console.error("Unexpected output format:", output);
-        throw new Error("No valid image URL in API response");
-      }
-      const filename = generateFilename(prompt);
-      
-      // Download and save image locally
-      const localPath = await downloadImage(imageUrl, filename);
-      
-      // Get file stats for size
-      const stats = await fs.stat(localPath);
-      
-      // Save to storage with local URL for frontend  
-      const localUrl = `${basePath}/api/images/${filename}`;
-      console.log("Saving image with localUrl:", localUrl);
-      
-      const savedImage = await storage.saveGeneratedImage({
-        prompt,
-        imageUrl: localUrl, // Use local URL instead of external
-        localPath,
-        fileSize: stats.size,
-        resolution: "3:4",
-        modelUsed: "mayaman/maya-29",
-      });
+      if (rejectUnsupportedRequest(request, res)) return;
+      await resolveGenerationInputs(request);
+      if (rejectRateLimited(req, res)) return;
 
-      console.log("Saved image data:", JSON.stringify(savedImage, null, 2));
+      const job = await enqueueGeneration(request, jobOrigin(req));
 
-      res.json({
+      res.status(202).json({
         success: true,
-        image: savedImage,
-        message: "Image generated and saved successfully"
+        job: toPublicJob(job),
+        message: "Image generation queued"
       });
 
     } catch (error) {
-      console.error("Generation error:", error);
+      if (error instanceof InvalidGenerationInputError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0]?.message || "Invalid request"
+        });
+      }
+      console.error("Error queueing generation:", error);
       res.status(500).json({
         success: false,
-        message: error instanceof Error ? error.message : "Failed to generate image"
+        message: "Failed to queue image generation"
+      });
+    }
+  });
+
+  // Poll a generation job
+  app.get(`${basePath}/api/jobs/:id`, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const image = job.imageId ? (await storage.getImageById(job.imageId)) ?? null : null;
+      const images = job.status === "succeeded" ? await storage.getImagesByBatch(job.id) : [];
+      const result: GenerationJobStatus = {
+        ...toPublicJob(job),
+        image: image && toPublicImage(image),
+        images: (images.length > 0 ? images : image ? [image] : []).map(toPublicImage),
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  // Cancel a queued or running job
+  app.post(`${basePath}/api/jobs/:id/cancel`, requirePermission("generate"), async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const canceled = await cancelJob(job.id);
+      if (!canceled) {
+        return res.status(409).json({ message: "Job has already finished" });
+      }
+      res.json({ success: true, message: "Job canceled" });
+    } catch (error) {
+      console.error("Error canceling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+
+  // Public settings the kiosk needs to render its controls
+  app.get(`${basePath}/api/settings`, async (_req, res) => {
+    try {
+      const maxOutputs = Math.min(config.maxOutputs, provider.describe().capabilities.maxOutputs);
+      const policy = await getPromptPolicy();
+      const settings: KioskSettings = {
+        maxOutputs,
+        defaultOutputs: Math.max(1, Math.min(config.kioskOutputs, maxOutputs)),
+        maxPromptWords: policy.maxWords,
+        maxPromptChars: policy.maxChars,
+        moderationEnabled: config.moderationEnabled,
+        paused: (await getBudgetStatus()).exceeded !== null,
+        wall: config.wall,
+      };
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  // Sign-in for operators and admins; the session cookie does the rest
+  app.post(`${basePath}/api/auth/login`, (req, res, next) => {
+    const parsed = loginRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid login" });
+    }
+    req.body = parsed.data;
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        console.error("Error signing in:", error);
+        return res.status(500).json({ message: "Failed to sign in" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      // New session id on sign-in so a planted cookie can't be carried over
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          res.json(user);
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post(`${basePath}/api/auth/logout`, (req, res, next) => {
+    req.logout((logoutError) => {
+      if (logoutError) return next(logoutError);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie(SESSION_COOKIE, { path: basePath || "/" });
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get(`${basePath}/api/auth/me`, requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
+  // Prompt policy administration; changes apply to the next request
+  app.get(`${basePath}/api/admin/prompt-policy`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json(await getPromptPolicy());
+    } catch (error) {
+      console.error("Error fetching prompt policy:", error);
+      res.status(500).json({ message: "Failed to fetch prompt policy" });
+    }
+  });
+
+  app.patch(`${basePath}/api/admin/prompt-policy`, requirePermission("settings"), async (req, res) => {
+    try {
+      const policy = await updatePromptPolicy(promptPolicySchema.partial().parse(req.body));
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid policy" });
+      }
+      console.error("Error updating prompt policy:", error);
+      res.status(500).json({ message: "Failed to update prompt policy" });
+    }
+  });
+
+  // Watermark for downloads and share images
+  app.get(`${basePath}/api/admin/watermark`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json(await getWatermarkSettings());
+    } catch (error) {
+      console.error("Error fetching watermark:", error);
+      res.status(500).json({ message: "Failed to fetch watermark" });
+    }
+  });
+
+  app.patch(`${basePath}/api/admin/watermark`, requirePermission("settings"), async (req, res) => {
+    try {
+      // The logo is set through its own upload endpoint
+      const updates = watermarkSettingsSchema.omit({ logoKey: true }).partial().parse(req.body);
+      res.json(await updateWatermarkSettings(updates));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid watermark" });
+      }
+      console.error("Error updating watermark:", error);
+      res.status(500).json({ message: "Failed to update watermark" });
+    }
+  });
+
+  app.put(`${basePath}/api/admin/watermark/logo`, requirePermission("settings"), uploadLogo, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload an SVG or PNG logo in the \"file\" field" });
+      }
+      res.json(await saveWatermarkLogo(req.file.buffer, req.file.mimetype));
+    } catch (error) {
+      if (error instanceof InvalidWatermarkLogoError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error saving watermark logo:", error);
+      res.status(500).json({ message: "Failed to save watermark logo" });
+    }
+  });
+
+  app.delete(`${basePath}/api/admin/watermark/logo`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json(await removeWatermarkLogo());
+    } catch (error) {
+      console.error("Error removing watermark logo:", error);
+      res.status(500).json({ message: "Failed to remove watermark logo" });
+    }
+  });
+
+  // Renders a share image with the saved watermark, or with unsaved changes
+  // from the body, over imageId or the latest image (a blank canvas if none)
+  app.post(`${basePath}/api/admin/watermark/preview`, requirePermission("settings"), async (req, res) => {
+    try {
+      const { imageId, ...changes } = req.body ?? {};
+      const updates = watermarkSettingsSchema.omit({ logoKey: true }).partial().parse(changes);
+      const settings = watermarkSettingsSchema.parse({ ...(await getWatermarkSettings()), ...updates, enabled: true });
+
+      const image = typeof imageId === "string"
+        ? await storage.getImageById(imageId)
+        : (await storage.getRecentImages(1))[0];
+      if (typeof imageId === "string" && !image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      const source = image
+        ? await readBlob(image.storageKey)
+        : await sharp({
+          create: { width: config.wall.width, height: config.wall.height, channels: 3, background: "#808080" },
+        }).png().toBuffer();
+
+      const preview = await applyWatermark(source, SHARE_OUTPUT, settings);
+      res.setHeader("Cache-Control", "no-store");
+      res.type("image/jpeg").send(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid watermark" });
+      }
+      console.error("Error rendering watermark preview:", error);
+      res.status(500).json({ message: "Failed to render watermark preview" });
+    }
+  });
+
+  // Styles the kiosk can offer
+  app.get(`${basePath}/api/styles`, async (_req, res) => {
+    try {
+      res.json(await storage.getStyles());
+    } catch (error) {
+      console.error("Error fetching styles:", error);
+      res.status(500).json({ message: "Failed to fetch styles" });
+    }
+  });
+
+  // Style registry administration
+  app.get(`${basePath}/api/admin/styles`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json(await storage.getStyles(true));
+    } catch (error) {
+      console.error("Error fetching styles:", error);
+      res.status(500).json({ message: "Failed to fetch styles" });
+    }
+  });
+
+  app.post(`${basePath}/api/admin/styles`, requirePermission("settings"), async (req, res) => {
+    try {
+      const style = await storage.createStyle(insertStyleSchema.parse(req.body));
+      res.status(201).json(style);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid style" });
+      }
+      if (error instanceof DuplicateStyleNameError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating style:", error);
+      res.status(500).json({ message: "Failed to create style" });
+    }
+  });
+
+  app.patch(`${basePath}/api/admin/styles/:id`, requirePermission("settings"), async (req, res) => {
+    try {
+      const style = await storage.updateStyle(req.params.id, updateStyleSchema.parse(req.body));
+      if (!style) {
+        return res.status(404).json({ message: "Style not found" });
+      }
+      res.json(style);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid style" });
+      }
+      if (error instanceof DuplicateStyleNameError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating style:", error);
+      res.status(500).json({ message: "Failed to update style" });
+    }
+  });
+
+  app.delete(`${basePath}/api/admin/styles/:id`, requirePermission("settings"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteStyle(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Style not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting style:", error);
+      res.status(500).json({ message: "Failed to delete style" });
+    }
+  });
+
+  // API keys for partner integrations; minting is the only time the secret is returned
+  app.get(`${basePath}/api/admin/api-keys`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json((await storage.getApiKeys()).map(toApiKeyInfo));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post(`${basePath}/api/admin/api-keys`, requirePermission("settings"), async (req, res) => {
+    try {
+      const created = await mintApiKey(createApiKeySchema.parse(req.body), getOperatorName(req));
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid API key" });
+      }
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  app.post(`${basePath}/api/admin/api-keys/:id/revoke`, requirePermission("settings"), async (req, res) => {
+    try {
+      const key = await storage.revokeApiKey(req.params.id, getOperatorName(req) ?? "unknown");
+      if (!key) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      res.json(toApiKeyInfo(key));
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // Spending limits; lowering one below what's spent pauses generation at once
+  app.get(`${basePath}/api/admin/budget`, requirePermission("settings"), async (_req, res) => {
+    try {
+      res.json(await getBudgetSettings());
+    } catch (error) {
+      console.error("Error fetching budget:", error);
+      res.status(500).json({ message: "Failed to fetch budget" });
+    }
+  });
+
+  app.patch(`${basePath}/api/admin/budget`, requirePermission("settings"), async (req, res) => {
+    try {
+      res.json(await updateBudgetSettings(budgetSettingsSchema.partial().parse(req.body)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid budget" });
+      }
+      console.error("Error updating budget:", error);
+      res.status(500).json({ message: "Failed to update budget" });
+    }
+  });
+
+  // Estimated provider spend by day, kiosk and API key, with budget status
+  app.get(`${basePath}/api/admin/spend`, requirePermission("analytics"), async (req, res) => {
+    try {
+      const { from, to } = spendQuerySchema.parse(req.query);
+      res.json(await getSpendSummary(from, to));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid date range" });
+      }
+      console.error("Error fetching spend:", error);
+      res.status(500).json({ message: "Failed to fetch spend" });
+    }
+  });
+
+  // Operator moderation queue; defaults to images awaiting approval
+  app.get(`${basePath}/api/operator/images`, requirePermission("moderate"), async (req, res) => {
+    try {
+      const status = (req.query.status || "pending") as ApprovalStatus;
+      if (!approvalStatuses.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of ${approvalStatuses.join(", ")}` });
+      }
+      const limit = parseInt(req.query.limit as string) || 50;
+      res.json(await storage.getImagesByApproval(status, limit));
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ message: "Failed to fetch moderation queue" });
+    }
+  });
+
+  app.get(`${basePath}/api/operator/images/:id/actions`, requirePermission("moderate"), async (req, res) => {
+    try {
+      res.json(await storage.getModerationActions(req.params.id));
+    } catch (error) {
+      console.error("Error fetching moderation history:", error);
+      res.status(500).json({ message: "Failed to fetch moderation history" });
+    }
+  });
+
+  // An image's share links, so operators can revoke one that got around
+  app.get(`${basePath}/api/operator/images/:id/share-tokens`, requirePermission("moderate"), async (req, res) => {
+    try {
+      res.json(await storage.getShareTokens(req.params.id));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post(`${basePath}/api/operator/share-tokens/:id/revoke`, requirePermission("moderate"), async (req, res) => {
+    try {
+      const operator = getOperatorName(req);
+      if (!operator) {
+        return res.status(401).json({ message: "Sign in to revoke share links" });
+      }
+      const token = await storage.revokeShareToken(req.params.id, operator);
+      if (!token) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      res.json(token);
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // Approve, reject or hide an image (:action is one of those verbs)
+  app.post(`${basePath}/api/operator/images/:id/:action`, requirePermission("moderate"), async (req, res) => {
+    try {
+      const action = req.params.action as ModerationActionType;
+      if (!moderationActionTypes.includes(action)) {
+        return res.status(404).json({ message: "Unknown moderation action" });
+      }
+      const operator = getOperatorName(req);
+      if (!operator) {
+        return res.status(401).json({ message: "Sign in to moderate images" });
+      }
+      const { note } = moderationRequestSchema.parse(req.body ?? {});
+
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      res.json(await moderateImage(image, action, operator, note));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid request" });
+      }
+      console.error("Error moderating image:", error);
+      res.status(500).json({ message: "Failed to moderate image" });
+    }
+  });
+
+  // Permanently removes an image, e.g. one that should never have been made
+  app.delete(`${basePath}/api/operator/images/:id`, requirePermission("delete"), async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      await deleteImage(image);
+      console.log(`Image ${image.id} deleted by ${getOperatorName(req) ?? "unknown"}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting image:", error);
+      res.status(500).json({ message: "Failed to delete image" });
+    }
+  });
+
+  // Describe the active image provider and what it supports
+  app.get(`${basePath}/api/provider`, (_req, res) => {
+    res.json(provider.describe());
+  });
+
+  // Stream a job's lifecycle events as Server-Sent Events
+  app.get(`${basePath}/api/jobs/:id/events`, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const send = openEventStream(req, res);
+
+      // Finished jobs get a single terminal event
+      if (job.status === "succeeded" || job.status === "failed") {
+        const image = job.imageId ? await storage.getImageById(job.imageId) : undefined;
+        const images = await storage.getImagesByBatch(job.id);
+        send("progress", getLastJobEvent(job.id) ?? {
+          jobId: job.id,
+          stage: job.status === "succeeded" ? "saved" : "failed",
+          progress: job.status === "succeeded" ? 1 : null,
+          queuePosition: null,
+          message: job.error ?? undefined,
+          image: image && toPublicImage(image),
+          images: images.map(toPublicImage),
+        });
+        return res.end();
+      }
+
+      send("progress", getLastJobEvent(job.id) ?? {
+        jobId: job.id,
+        stage: job.status === "queued" ? "queued" : "starting",
+        progress: null,
+        queuePosition: getQueuePosition(job.id),
+      });
+
+      const unsubscribe = subscribeToJob(job.id, (event) => {
+        send("progress", event);
+        if (event.stage === "saved" || event.stage === "failed") {
+          unsubscribe();
+          res.end();
+        }
       });
+      req.on("close", unsubscribe);
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream job events" });
+      } else {
+        res.end();
+      }
     }
   });
 
-  // Get recent images
+  // Push newly approved images to LED wall displays, and the ids of images
+  // an operator has taken down
+  app.get(`${basePath}/api/wall/events`, (req, res) => {
+    const send = openEventStream(req, res);
+    const unsubscribe = subscribeToWall(
+      (image) => send("image", toPublicImage(image)),
+      (imageId) => send("removed", { id: imageId }),
+    );
+    req.on("close", unsubscribe);
+  });
+
+  // Get recent images; only approved ones are public
   app.get(`${basePath}/api/images/recent`, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 12;
-      const images = await storage.getRecentImages(limit);
-      res.json(images);
+      const images = await storage.getRecentImages(limit, true);
+      res.json(images.map(toPublicImage));
     } catch (error) {
       console.error("Error fetching recent images:", error);
       res.status(500).json({
@@ -158,6 +828,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Browse approved images, newest first; pass nextCursor back as ?cursor=
+  app.get(`${basePath}/api/images`, async (req, res) => {
+    try {
+      const search = imageSearchSchema.parse(req.query);
+      const page = await storage.searchImages(search);
+      const result: ImagePage<PublicImage> = { ...page, images: page.images.map(toPublicImage) };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid search" });
+      }
+      console.error("Error searching images:", error);
+      res.status(500).json({ message: "Failed to search images" });
+    }
+  });
+
+  // Models that appear in the gallery, for its filter
+  app.get(`${basePath}/api/images/models`, async (_req, res) => {
+    try {
+      res.json(await storage.getImageModels());
+    } catch (error) {
+      console.error("Error fetching image models:", error);
+      res.status(500).json({ message: "Failed to fetch image models" });
+    }
+  });
+
   // Get image count (must come before the generic image serving route)
   app.get(`${basePath}/api/images/count`, async (req, res) => {
     try {
@@ -169,68 +865,342 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download endpoint - forces download with proper filename
-  app.get(`${basePath}/api/download/:filename`, async (req, res) => {
+  // Full generation parameters and provenance for one image
+  app.get(`${basePath}/api/images/:id/details`, async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const imagePath = path.join(IMAGES_DIR, filename);
-      
-      // Check if file exists
-      await fs.access(imagePath);
-      
-      // Extract prompt from filename for better download name
-      const promptMatch = filename.match(/^[\d-T]+Z_(.+)\.(webp|png)$/);
-      const promptPart = promptMatch ? promptMatch[1] : 'generated-image';
-      const fileExt = promptMatch ? promptMatch[2] : 'webp';
-      const downloadFilename = `MM29-${promptPart}.${fileExt}`;
-      
-      // Force download with proper headers
-      res.setHeader('Content-Type', 'application/octet-stream');
-      res.setHeader('Content-Disposition', `attachment; filename="${downloadFilename}"`);
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Content-Transfer-Encoding', 'binary');
-      
-      // Send the file
-      res.sendFile(path.resolve(imagePath));
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      res.json(toPublicImage(image));
     } catch (error) {
-      console.error("Error downloading image:", error);
-      res.status(404).json({ message: "Image not found" });
+      console.error("Error fetching image details:", error);
+      res.status(500).json({ message: "Failed to fetch image details" });
     }
   });
 
-  // Serve generated images
-  app.get(`${basePath}/api/images/:filename`, async (req, res) => {
+  // Upload a base image or inpainting mask (multipart field "file")
+  app.post(`${basePath}/api/references`, requirePermission("generate"), uploadImage, async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const imagePath = path.join(IMAGES_DIR, filename);
-      
-      // Check if file exists
-      await fs.access(imagePath);
-      
-      // Check if this is a download request
-      const isDownload = req.query.download === 'true';
-      
-      if (isDownload) {
-        // Set headers for download
-        res.setHeader('Content-Type', 'application/octet-stream');
-        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-        res.setHeader('Cache-Control', 'no-cache');
-      } else {
-        // Set headers for viewing based on file extension
-        const isWebp = filename.endsWith('.webp');
-        res.setHeader('Content-Type', isWebp ? 'image/webp' : 'image/png');
-        res.setHeader('Cache-Control', 'public, max-age=31536000');
+      if (!req.file) {
+        return res.status(400).json({ success: false, message: "Upload a PNG, JPEG or WebP image" });
+      }
+      const kind = (req.body.kind || "image") as ReferenceKind;
+      if (!referenceKinds.includes(kind)) {
+        return res.status(400).json({ success: false, message: "Kind must be image or mask" });
+      }
+
+      const storageKey = `${REFERENCES_PREFIX}/${randomUUID()}${REFERENCE_TYPES[req.file.mimetype]}`;
+      await blobStore.put(storageKey, req.file.buffer, req.file.mimetype);
+      const reference = await storage.saveReferenceImage({
+        kind,
+        storageKey,
+        mimeType: req.file.mimetype,
+        fileSize: req.file.size,
+      });
+      res.status(201).json({ success: true, reference });
+    } catch (error) {
+      console.error("Error saving reference upload:", error);
+      res.status(500).json({ success: false, message: "Failed to save upload" });
+    }
+  });
+
+  // Serve an uploaded reference image
+  app.get(`${basePath}/api/references/:id/file`, async (req, res) => {
+    try {
+      const reference = await storage.getReferenceImage(req.params.id);
+      if (!reference) {
+        return res.status(404).json({ message: "Reference not found" });
+      }
+      const sent = await sendBlob(req, res, reference.storageKey, { cacheControl: "public, max-age=31536000" });
+      if (!sent) {
+        res.status(404).json({ message: "Reference not found" });
+      }
+    } catch (error) {
+      console.error("Error serving reference:", error);
+      res.status(404).json({ message: "Reference not found" });
+    }
+  });
+
+  // Pick one variant of a multi-output batch for the wall and download
+  app.post(`${basePath}/api/images/:id/choose`, requirePermission("generate"), async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ success: false, message: "Image not found" });
+      }
+      // Choosing again would push an old image back onto the wall
+      if (image.chosen) {
+        return res.status(409).json({ success: false, message: "This image was already chosen" });
+      }
+      if (image.batchId) {
+        const siblings = await storage.getImagesByBatch(image.batchId);
+        if (siblings.some((sibling) => sibling.chosen)) {
+          return res.status(409).json({ success: false, message: "A variant was already chosen" });
+        }
+      }
+
+      const chosen = await chooseVariant(image);
+      res.json({ success: true, image: toPublicImage(chosen) });
+    } catch (error) {
+      console.error("Error choosing variant:", error);
+      res.status(500).json({ success: false, message: "Failed to choose variant" });
+    }
+  });
+
+  // Re-run a past image with the same seed, optionally changing the prompt
+  app.post(`${basePath}/api/images/:id/remix`, requirePermission("generate"), requireBudget, async (req, res) => {
+    try {
+      const { prompt } = remixImageRequestSchema.parse(req.body ?? {});
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ success: false, message: "Image not found" });
+      }
+
+      if (prompt && await rejectPromptViolations(prompt, res)) return;
+
+      const seed = image.generationParams?.seed ?? undefined;
+      const request = generateImageRequestSchema.parse({
+        prompt: prompt ?? image.prompt,
+        seed,
+        referenceImageId: image.referenceImageId ?? undefined,
+        sourceImageId: image.sourceImageId ?? undefined,
+        maskId: image.maskId ?? undefined,
+        styleId: image.styleId ?? undefined,
+        promptStrength: image.sourceImageId || image.referenceImageId
+          ? image.generationParams?.promptStrength
+          : undefined,
+      });
+      if (rejectUnsupportedRequest(request, res)) return;
+      await resolveGenerationInputs(request);
+      if (rejectRateLimited(req, res)) return;
+
+      const job = await enqueueGeneration(request, jobOrigin(req));
+
+      res.status(202).json({
+        success: true,
+        job: toPublicJob(job),
+        message: seed === undefined
+          ? "Remix queued (original seed unknown, a new one will be used)"
+          : "Remix queued"
+      });
+    } catch (error) {
+      if (error instanceof InvalidGenerationInputError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0]?.message || "Invalid request"
+        });
+      }
+      console.error("Error queueing remix:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to queue remix"
+      });
+    }
+  });
+
+  // Original image by id; ?variant= picks a resized display copy
+  app.get(`${basePath}/api/images/:id/file`, async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      if (req.query.variant !== undefined) {
+        const name = req.query.variant as ImageVariantName;
+        if (!imageVariantNames.includes(name)) {
+          return res.status(400).json({ message: `Variant must be one of ${imageVariantNames.join(", ")}` });
+        }
+        const variant = await getOrCreateVariant(image, name);
+        // Variants can be re-rendered in place, so revalidate via ETag
+        const sent = await sendBlob(req, res, variant.storageKey, { cacheControl: "public, no-cache" });
+        if (!sent) {
+          res.status(404).json({ message: "Image not found" });
+        }
+        return;
+      }
+
+      const sent = await sendBlob(req, res, image.storageKey, { cacheControl: "public, max-age=31536000" });
+      if (!sent) {
+        res.status(404).json({ message: "Image not found" });
       }
-      
-      // Send the file
-      res.sendFile(path.resolve(imagePath));
     } catch (error) {
       console.error("Error serving image:", error);
-      res.status(404).json({ message: "Image not found" });
+      res.status(500).json({ message: "Failed to serve image" });
+    }
+  });
+
+  // Forces a download named after the prompt, e.g. MM29-a-neon-city.png.
+  // ?strip=true removes all metadata, for visitors who want a clean copy.
+  app.get(`${basePath}/api/images/:id/download`, async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      await sendImageDownload(req, res, image);
+    } catch (error) {
+      console.error("Error downloading image:", error);
+      res.status(500).json({ message: "Failed to download image" });
+    }
+  });
+
+  // Watermarked JPEG sized for social media; the wall keeps the clean original
+  app.get(`${basePath}/api/images/:id/share`, async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      await sendShareImage(req, res, image);
+    } catch (error) {
+      console.error("Error rendering share image:", error);
+      res.status(500).json({ message: "Failed to render share image" });
+    }
+  });
+
+  // QR share link for the kiosk overlay and the wall. Approved images are
+  // public, so the wall needs no account; the kiosk overlay shows images
+  // still awaiting moderation, which only those who may generate can share.
+  app.post(`${basePath}/api/images/:id/share-token`, async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+      if (!image || (image.approvalStatus !== "approved" && !canAct(req, "generate"))) {
+        return res.status(404).json({ success: false, message: "Image not found" });
+      }
+      const token = await getOrCreateShareToken(image);
+      res.json({ success: true, link: toShareLink(req, token) });
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({ success: false, message: "Failed to create share link" });
+    }
+  });
+
+  // What the /s/:token page on a visitor's phone shows
+  app.get(`${basePath}/api/share/:token`, async (req, res) => {
+    try {
+      const shared = await resolveShareToken(req.params.token);
+      if ("error" in shared) {
+        return sendShareError(res, shared.error);
+      }
+      const tokenPath = `${basePath}/api/share/${shared.token.token}`;
+      const body: SharedImage = {
+        prompt: shared.image.prompt,
+        generatedAt: shared.image.generatedAt.toISOString(),
+        expiresAt: shared.token.expiresAt.toISOString(),
+        imageUrl: `${tokenPath}/image`,
+        downloadUrl: `${tokenPath}/download`,
+      };
+      res.json(body);
+    } catch (error) {
+      console.error("Error resolving share link:", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  app.get(`${basePath}/api/share/:token/image`, async (req, res) => {
+    try {
+      const shared = await resolveShareToken(req.params.token);
+      if ("error" in shared) {
+        return sendShareError(res, shared.error);
+      }
+      await sendShareImage(req, res, shared.image);
+    } catch (error) {
+      console.error("Error rendering shared image:", error);
+      res.status(500).json({ message: "Failed to render share image" });
+    }
+  });
+
+  app.get(`${basePath}/api/share/:token/download`, async (req, res) => {
+    try {
+      const shared = await resolveShareToken(req.params.token);
+      if ("error" in shared) {
+        return sendShareError(res, shared.error);
+      }
+      await sendImageDownload(req, res, shared.image);
+    } catch (error) {
+      console.error("Error downloading shared image:", error);
+      res.status(500).json({ message: "Failed to download image" });
+    }
+  });
+
+  // Reads the metadata back out of a downloaded file and finds the stored
+  // image it came from: by the embedded id, or by checksum for an untouched
+  // original
+  app.post(`${basePath}/api/inspect`, uploadImage, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "Upload a PNG, JPEG or WebP file in the \"file\" field"
+        });
+      }
+
+      let metadata;
+      try {
+        metadata = readEmbeddedMetadata(req.file.buffer);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof Error ? error.message : "Could not read the file"
+        });
+      }
+
+      let image = metadata?.imageId ? await storage.getImageById(metadata.imageId) : undefined;
+      let matchedBy: "id" | "sha256" | null = image ? "id" : null;
+      if (!image) {
+        const sha256 = createHash("sha256").update(req.file.buffer).digest("hex");
+        image = await storage.getImageBySha256(sha256);
+        if (image) matchedBy = "sha256";
+      }
+
+      res.json({ success: true, metadata, image: image ? toPublicImage(image) : null, matchedBy });
+    } catch (error) {
+      console.error("Error inspecting image:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to inspect image"
+      });
     }
   });
 
+  // Legacy filename URLs (old share links, cached pages) redirect to the id
+  // routes; only files that belong to a stored image are reachable
+  app.get(`${basePath}/api/download/:filename`, async (req, res) => {
+    try {
+      const image = await storage.getImageByStorageKey(imageKey(req.params.filename));
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      res.redirect(301, `${basePath}/api/images/${image.id}/download`);
+    } catch (error) {
+      console.error("Error resolving legacy download:", error);
+      res.status(500).json({ message: "Failed to download image" });
+    }
+  });
 
+  app.get(`${basePath}/api/images/:filename`, async (req, res) => {
+    try {
+      const image = await storage.getImageByStorageKey(imageKey(req.params.filename));
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (req.query.download === 'true') {
+        return res.redirect(301, `${basePath}/api/images/${image.id}/download`);
+      }
+      const variant = typeof req.query.variant === "string"
+        ? `?variant=${encodeURIComponent(req.query.variant)}`
+        : "";
+      res.redirect(301, `${imageFileUrl(image.id)}${variant}`);
+    } catch (error) {
+      console.error("Error resolving legacy image URL:", error);
+      res.status(500).json({ message: "Failed to serve image" });
+    }
+  });
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,58 @@
+import { randomBytes } from "crypto";
+import type { Request } from "express";
+import { storage } from "./storage";
+import { config } from "./config";
+import type { GeneratedImage, ShareLink, ShareToken } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isShareTokenActive(token: ShareToken, now: Date = new Date()): boolean {
+  return !token.revokedAt && token.expiresAt.getTime() > now.getTime();
+}
+
+// Reuses a live token with at least half its lifetime left, so the kiosk and
+// the wall show the same QR code for an image
+export async function getOrCreateShareToken(image: GeneratedImage): Promise<ShareToken> {
+  const ttlMs = config.share.ttlHours * HOUR_MS;
+  const now = Date.now();
+  const reusable = (await storage.getShareTokens(image.id)).find(
+    (token) => isShareTokenActive(token) && token.expiresAt.getTime() - now > ttlMs / 2,
+  );
+  if (reusable) return reusable;
+
+  return storage.createShareToken({
+    // 96 random bits, short enough for a small QR code
+    token: randomBytes(12).toString("base64url"),
+    imageId: image.id,
+    expiresAt: new Date(now + ttlMs),
+  });
+}
+
+export function toShareLink(req: Request, token: ShareToken): ShareLink {
+  const origin = config.share.baseUrl || `${req.protocol}://${req.get("host")}`;
+  return {
+    token: token.token,
+    url: `${origin}${config.basePath}/s/${token.token}`,
+    expiresAt: token.expiresAt.toISOString(),
+  };
+}
+
+export type ShareResolution =
+  | { image: GeneratedImage; token: ShareToken }
+  | { error: "not_found" | "expired" | "revoked" };
+
+// Finds the image behind a token. Images an operator rejected or hid are
+// treated as revoked, whatever the token says.
+export async function resolveShareToken(value: string): Promise<ShareResolution> {
+  const token = await storage.getShareToken(value);
+  if (!token) return { error: "not_found" };
+  if (token.revokedAt) return { error: "revoked" };
+  if (!isShareTokenActive(token)) return { error: "expired" };
+
+  const image = await storage.getImageById(token.imageId);
+  if (!image) return { error: "not_found" };
+  if (image.approvalStatus === "rejected" || image.approvalStatus === "hidden") {
+    return { error: "revoked" };
+  }
+  return { image, token };
+}
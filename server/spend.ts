@@ -0,0 +1,131 @@
+import type { RequestHandler } from "express";
+import { storage, type JobCost } from "./storage";
+import { config } from "./config";
+import {
+  budgetSettingsSchema,
+  type BudgetSettings,
+  type BudgetStatus,
+  type SpendBucket,
+  type SpendSummary,
+} from "@shared/schema";
+
+const SETTING_KEY = "budget";
+
+// Covers "today" in any time zone, however far it is from UTC
+const TODAY_LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000;
+
+let cachedSettings: BudgetSettings | undefined;
+
+export async function getBudgetSettings(): Promise<BudgetSettings> {
+  if (!cachedSettings) {
+    const stored = await storage.getSetting<BudgetSettings>(SETTING_KEY);
+    const parsed = budgetSettingsSchema.safeParse(stored);
+    cachedSettings = parsed.success ? parsed.data : config.budget;
+  }
+  return cachedSettings;
+}
+
+export async function updateBudgetSettings(updates: Partial<BudgetSettings>): Promise<BudgetSettings> {
+  const settings = budgetSettingsSchema.parse({ ...(await getBudgetSettings()), ...updates });
+  await storage.putSetting(SETTING_KEY, settings);
+  cachedSettings = settings;
+  return settings;
+}
+
+// Fractions of a cent add up over an event, so keep six places
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+// Records what a job's provider call is estimated to have cost
+export async function recordJobCost(jobId: string, predictSeconds: number): Promise<void> {
+  const { costPerSecond } = await getBudgetSettings();
+  await storage.updateJob(jobId, {
+    predictSeconds,
+    estimatedCost: roundUsd(predictSeconds * costPerSecond),
+  });
+}
+
+const dayFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: config.budgetTimeZone,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// YYYY-MM-DD of a moment in the budget time zone
+function dayOf(date: Date): string {
+  return dayFormat.format(date);
+}
+
+function sumCosts(jobs: JobCost[]): number {
+  return roundUsd(jobs.reduce((total, job) => total + job.estimatedCost, 0));
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const { dailyLimit, eventLimit, eventStartsAt } = await getBudgetSettings();
+  const now = new Date();
+  const today = dayOf(now);
+  const recent = await storage.getJobCosts(new Date(now.getTime() - TODAY_LOOKBACK_MS));
+  const spentToday = sumCosts(recent.filter((job) => dayOf(job.createdAt) === today));
+  const spentEvent = roundUsd(await storage.getSpend(eventStartsAt ? new Date(eventStartsAt) : undefined));
+
+  let exceeded: BudgetStatus["exceeded"] = null;
+  if (dailyLimit !== null && spentToday >= dailyLimit) exceeded = "daily";
+  else if (eventLimit !== null && spentEvent >= eventLimit) exceeded = "event";
+  return { spentToday, spentEvent, dailyLimit, eventLimit, exceeded };
+}
+
+// Turns generation requests away once a budget is spent. Jobs already
+// queued still run, so a budget can be overshot by up to a queue's worth.
+export const requireBudget: RequestHandler = async (_req, res, next) => {
+  try {
+    const { exceeded } = await getBudgetStatus();
+    if (exceeded) {
+      return res.status(503).json({
+        message: `Generation is paused: the ${exceeded} budget has been spent`,
+        reason: "budget",
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking budget:", error);
+    res.status(500).json({ message: "Failed to check budget" });
+  }
+};
+
+// Totals costs per key, most expensive first
+function groupCosts<K>(jobs: JobCost[], keyOf: (job: JobCost) => K): { key: K; bucket: SpendBucket }[] {
+  const groups = new Map<K, SpendBucket>();
+  for (const job of jobs) {
+    const key = keyOf(job);
+    const bucket = groups.get(key) ?? { cost: 0, jobs: 0 };
+    bucket.cost += job.estimatedCost;
+    bucket.jobs++;
+    groups.set(key, bucket);
+  }
+  return Array.from(groups, ([key, bucket]) => ({ key, bucket: { cost: roundUsd(bucket.cost), jobs: bucket.jobs } }))
+    .sort((a, b) => b.bucket.cost - a.bucket.cost);
+}
+
+// Spend of jobs created in [from, to), by day, kiosk and API key
+export async function getSpendSummary(from?: Date, to?: Date): Promise<SpendSummary> {
+  const [jobs, keys, budget] = await Promise.all([
+    storage.getJobCosts(from, to),
+    storage.getApiKeys(),
+    getBudgetStatus(),
+  ]);
+  const keyNames = new Map(keys.map((key) => [key.id, key.name]));
+
+  return {
+    total: sumCosts(jobs),
+    byDay: groupCosts(jobs, (job) => dayOf(job.createdAt))
+      .map(({ key, bucket }) => ({ day: key, ...bucket }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    byKiosk: groupCosts(jobs, (job) => job.kioskId)
+      .map(({ key, bucket }) => ({ kioskId: key, ...bucket })),
+    byApiKey: groupCosts(jobs, (job) => job.apiKeyId)
+      .map(({ key, bucket }) => ({ apiKeyId: key, name: key ? keyNames.get(key) ?? null : null, ...bucket })),
+    budget,
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { newDb, DataType } from "pg-mem";
+import { DbStorage, DuplicateStyleNameError, MemStorage, type IStorage } from "./storage";
+import * as schema from "@shared/schema";
+import { generateImageRequestSchema, type InsertImage, type InsertStyle } from "@shared/schema";
+
+// Applies the real migrations to an in-memory Postgres. pg-mem has no
+// full-text search, so to_tsvector is a stand-in and search by text is
+// left untested here; the UPDATE backfills are no-ops on an empty database.
+function pgMemDatabase() {
+  const mem = newDb();
+  mem.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.uuid,
+    implementation: randomUUID,
+    impure: true,
+  });
+  mem.public.registerFunction({
+    name: "to_tsvector",
+    args: [DataType.text, DataType.text],
+    returns: DataType.text,
+    implementation: (_config: string, text: string) => text,
+  });
+  const files = fs.readdirSync("migrations").filter((file) => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    for (const statement of fs.readFileSync(`migrations/${file}`, "utf8").split("--> statement-breakpoint")) {
+      const sql = statement.replace(/^\s*--.*$/gm, "").trim();
+      if (sql && !sql.startsWith("UPDATE")) mem.public.none(sql);
+    }
+  }
+  // pg-mem's pg adapter takes neither drizzle's per-query type parsers nor
+  // array rows, so hand it plain queries and shape the results the way pg
+  // would: rows as arrays and timestamps as Postgres text
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  pool.query = async (config: QueryConfig, values?: unknown[]) => {
+    if (typeof config === "string") return query(config, values);
+    const { types: _types, rowMode, ...plain } = config;
+    const result = await query(plain, values);
+    if (rowMode !== "array") return result;
+    const rows = result.rows.map((row: Record<string, unknown>) => Object.values(row).map(toPgText));
+    return { ...result, rows };
+  };
+  return drizzle(pool, { schema });
+}
+
+type QueryConfig = string | { text: string; types?: unknown; rowMode?: string };
+
+function toPgText(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value;
+}
+
+function image(overrides: Partial<InsertImage> = {}): InsertImage {
+  const key = `generated_images/${randomUUID()}.png`;
+  return {
+    prompt: "a lighthouse at dusk",
+    imageUrl: `/${key}`,
+    storageKey: key,
+    fileSize: 1024,
+    resolution: "1024x1024",
+    ...overrides,
+  };
+}
+
+function style(name: string): InsertStyle {
+  return { name, weights: `owner/${name.toLowerCase()}`, loraScale: 1, extraLoraScale: 1, exampleImageUrl: null };
+}
+
+const request = generateImageRequestSchema.parse({ prompt: "a lighthouse at dusk" });
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const implementations: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["DbStorage", () => new DbStorage(pgMemDatabase())],
+];
+
+for (const [name, create] of implementations) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(() => {
+      storage = create();
+    });
+
+    it("saves and finds images", async () => {
+      const saved = await storage.saveGeneratedImage(image());
+      assert.equal((await storage.getImageById(saved.id))?.storageKey, saved.storageKey);
+      assert.equal(await storage.getImageById(randomUUID()), undefined);
+    });
+
+    it("lists only chosen images as recent", async () => {
+      const chosen = await storage.saveGeneratedImage(image());
+      await storage.saveGeneratedImage(image({ chosen: false }));
+      assert.deepEqual((await storage.getRecentImages(10)).map((i) => i.id), [chosen.id]);
+    });
+
+    it("leaves pending images out when only approved ones are asked for", async () => {
+      const approved = await storage.saveGeneratedImage(image());
+      const pending = await storage.saveGeneratedImage(image({ approvalStatus: "pending" }));
+      assert.deepEqual((await storage.getRecentImages(10, true)).map((i) => i.id), [approved.id]);
+      assert.deepEqual(
+        (await storage.getRecentImages(10, false)).map((i) => i.id).sort(),
+        [approved.id, pending.id].sort(),
+      );
+    });
+
+    it("refuses a second style with the same name", async () => {
+      await storage.createStyle(style("Ink"));
+      await assert.rejects(storage.createStyle(style("Ink")), DuplicateStyleNameError);
+    });
+
+    it("refuses to rename a style onto another's name", async () => {
+      await storage.createStyle(style("Ink"));
+      const watercolor = await storage.createStyle(style("Watercolor"));
+      await assert.rejects(storage.updateStyle(watercolor.id, { name: "Ink" }), DuplicateStyleNameError);
+      assert.equal((await storage.updateStyle(watercolor.id, { name: "Gouache" }))?.name, "Gouache");
+    });
+
+    it("adds up the estimated cost of jobs", async () => {
+      const first = await storage.createJob({ request, kioskId: "lobby" });
+      await storage.updateJob(first.id, { estimatedCost: 0.25 });
+      await storage.createJob({ request, kioskId: "lobby" });
+      await wait(5);
+      const between = new Date();
+      await wait(5);
+      const second = await storage.createJob({ request, kioskId: "stage" });
+      await storage.updateJob(second.id, { estimatedCost: 0.5 });
+
+      assert.equal(await storage.getSpend(), 0.75);
+      assert.equal(await storage.getSpend(between), 0.5);
+      assert.equal(await storage.getSpend(undefined, between), 0.25);
+
+      const costs = await storage.getJobCosts();
+      assert.deepEqual(costs.map((job) => [job.kioskId, job.estimatedCost]).sort(), [["lobby", 0.25], ["stage", 0.5]]);
+      assert.deepEqual((await storage.getJobCosts(between)).map((job) => job.kioskId), ["stage"]);
+    });
+  });
+}
@@ -1,25 +1,185 @@
-import { type User, type InsertUser, type GeneratedImage, type InsertImage } from "@shared/schema";
+import {
+  users,
+  generatedImages,
+  generationJobs,
+  referenceImages,
+  styles,
+  appSettings,
+  moderationActions,
+  shareTokens,
+  apiKeys,
+  imageVariants,
+  type User,
+  type InsertUser,
+  type GeneratedImage,
+  type InsertImage,
+  type GenerationJob,
+  type InsertJob,
+  type JobStatus,
+  type ReferenceImage,
+  type InsertReferenceImage,
+  type Style,
+  type InsertStyle,
+  type UpdateStyle,
+  type ApprovalStatus,
+  type ModerationAction,
+  type InsertModerationAction,
+  type ShareToken,
+  type InsertShareToken,
+  type ApiKey,
+  type InsertApiKey,
+  type ImageSearch,
+  type ImagePage,
+  type ImageVariant,
+  type ImageVariantName,
+  type InsertImageVariant,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gte, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { db, type Database } from "./db";
+
+// Gallery cursors point at the last image of a page: its timestamp, with the
+// id breaking ties between images saved in the same millisecond
+type ImageCursor = { generatedAt: Date; id: string };
+
+function encodeCursor(image: GeneratedImage): string {
+  return Buffer.from(`${image.generatedAt.toISOString()}|${image.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): ImageCursor | undefined {
+  if (!cursor) return undefined;
+  const [timestamp, id] = Buffer.from(cursor, "base64url").toString().split("|");
+  const generatedAt = new Date(timestamp);
+  if (!id || isNaN(generatedAt.getTime())) return undefined;
+  return { generatedAt, id };
+}
+
+// Turns an over-fetched page (limit + 1 rows) into images and the next cursor
+function toImagePage(rows: GeneratedImage[], limit: number): ImagePage {
+  const images = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(images[images.length - 1]) : null;
+  return { images, nextCursor };
+}
+
+// Jobs with a recorded cost, created in [from, to)
+function costedJobsIn(from?: Date, to?: Date) {
+  return and(
+    isNotNull(generationJobs.estimatedCost),
+    from ? gte(generationJobs.createdAt, from) : undefined,
+    to ? lt(generationJobs.createdAt, to) : undefined,
+  );
+}
+
+// Thrown when a style would share its name with another
+export class DuplicateStyleNameError extends Error {
+  constructor(name: string) {
+    super(`A style named "${name}" already exists`);
+    this.name = "DuplicateStyleNameError";
+  }
+}
+
+// Postgres unique_violation
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
+
+// What spend reports need of a costed job
+export type JobCost = Pick<GenerationJob, "createdAt" | "kioskId" | "apiKeyId"> & { estimatedCost: number };
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
   
   // Image storage methods
   saveGeneratedImage(image: InsertImage): Promise<GeneratedImage>;
-  getRecentImages(limit?: number): Promise<GeneratedImage[]>;
+  getRecentImages(limit?: number, approvedOnly?: boolean): Promise<GeneratedImage[]>;
   getImageById(id: string): Promise<GeneratedImage | undefined>;
+  getImageByStorageKey(key: string): Promise<GeneratedImage | undefined>;
+  getImageBySha256(sha256: string): Promise<GeneratedImage | undefined>;
+  searchImages(search: ImageSearch): Promise<ImagePage>;
+  getImageModels(): Promise<string[]>;
   getImageCount(): Promise<number>;
+  getImagesByBatch(batchId: string): Promise<GeneratedImage[]>;
+  updateImage(id: string, updates: Partial<InsertImage>): Promise<GeneratedImage | undefined>;
+  deleteImage(id: string): Promise<boolean>;
+
+  // Display variant registry
+  saveImageVariant(variant: InsertImageVariant): Promise<ImageVariant>;
+  getImageVariant(imageId: string, variant: ImageVariantName): Promise<ImageVariant | undefined>;
+  getImageVariants(imageId: string): Promise<ImageVariant[]>;
+
+  // Moderation methods
+  getImagesByApproval(status: ApprovalStatus, limit?: number): Promise<GeneratedImage[]>;
+  recordModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  getModerationActions(imageId: string): Promise<ModerationAction[]>;
+
+  // Share link methods
+  createShareToken(token: InsertShareToken): Promise<ShareToken>;
+  getShareToken(token: string): Promise<ShareToken | undefined>;
+  getShareTokens(imageId: string): Promise<ShareToken[]>;
+  // An already revoked token keeps its first revocation's time and operator
+  revokeShareToken(id: string, operator: string): Promise<ShareToken | undefined>;
+
+  // API key methods
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  // An already revoked key keeps its first revocation's time and operator
+  revokeApiKey(id: string, operator: string): Promise<ApiKey | undefined>;
+  // Adds to a key's counters; requests also mark it as just used
+  recordApiKeyUsage(id: string, usage: { requests?: number; images?: number }): Promise<void>;
+
+  // Reference upload methods
+  saveReferenceImage(reference: InsertReferenceImage): Promise<ReferenceImage>;
+  getReferenceImage(id: string): Promise<ReferenceImage | undefined>;
+
+  // Style registry methods
+  getStyles(includeInactive?: boolean): Promise<Style[]>;
+  getStyle(id: string): Promise<Style | undefined>;
+  createStyle(style: InsertStyle): Promise<Style>;
+  updateStyle(id: string, updates: UpdateStyle): Promise<Style | undefined>;
+  deleteStyle(id: string): Promise<boolean>;
+
+  // Runtime settings, stored as JSON by key
+  getSetting<T>(key: string): Promise<T | undefined>;
+  putSetting<T>(key: string, value: T): Promise<void>;
+
+  // Generation job methods
+  createJob(job: InsertJob): Promise<GenerationJob>;
+  getJob(id: string): Promise<GenerationJob | undefined>;
+  updateJob(id: string, updates: Partial<InsertJob>): Promise<GenerationJob | undefined>;
+  getJobsByStatus(status: JobStatus): Promise<GenerationJob[]>;
+
+  // Spend tracking: estimated cost of jobs created in [from, to)
+  getSpend(from?: Date, to?: Date): Promise<number>;
+  getJobCosts(from?: Date, to?: Date): Promise<JobCost[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private images: Map<string, GeneratedImage>;
+  private jobs: Map<string, GenerationJob>;
+  private references: Map<string, ReferenceImage>;
+  private styles: Map<string, Style>;
+  private settings: Map<string, unknown>;
+  private moderationActions: Map<string, ModerationAction>;
+  private variants: Map<string, ImageVariant>;
+  private shareTokens: Map<string, ShareToken>;
+  private apiKeys: Map<string, ApiKey>;
 
   constructor() {
     this.users = new Map();
     this.images = new Map();
+    this.jobs = new Map();
+    this.references = new Map();
+    this.styles = new Map();
+    this.settings = new Map();
+    this.moderationActions = new Map();
+    this.variants = new Map();
+    this.shareTokens = new Map();
+    this.apiKeys = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -39,6 +199,14 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...updates, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   async saveGeneratedImage(insertImage: InsertImage): Promise<GeneratedImage> {
     const id = randomUUID();
     const image: GeneratedImage = {
@@ -46,13 +214,30 @@ export class MemStorage implements IStorage {
       id,
       modelUsed: insertImage.modelUsed || "stability-ai/sdxl",
       generatedAt: new Date(),
+      sha256: insertImage.sha256 ?? null,
+      generationParams: insertImage.generationParams ?? null,
+      predictionId: insertImage.predictionId ?? null,
+      durationMs: insertImage.durationMs ?? null,
+      status: insertImage.status || "succeeded",
+      batchId: insertImage.batchId ?? null,
+      chosen: insertImage.chosen ?? true,
+      sourceImageId: insertImage.sourceImageId ?? null,
+      referenceImageId: insertImage.referenceImageId ?? null,
+      maskId: insertImage.maskId ?? null,
+      styleId: insertImage.styleId ?? null,
+      apiKeyId: insertImage.apiKeyId ?? null,
+      approvalStatus: insertImage.approvalStatus || "approved",
+      moderatedBy: insertImage.moderatedBy ?? null,
+      moderatedAt: insertImage.moderatedAt ?? null,
     };
     this.images.set(id, image);
     return image;
   }
 
-  async getRecentImages(limit: number = 12): Promise<GeneratedImage[]> {
-    const images = Array.from(this.images.values());
+  async getRecentImages(limit: number = 12, approvedOnly: boolean = false): Promise<GeneratedImage[]> {
+    const images = Array.from(this.images.values()).filter(
+      (image) => image.chosen && (!approvedOnly || image.approvalStatus === "approved"),
+    );
     return images
       .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime())
       .slice(0, limit);
@@ -62,9 +247,677 @@ export class MemStorage implements IStorage {
     return this.images.get(id);
   }
 
+  async getImageByStorageKey(key: string): Promise<GeneratedImage | undefined> {
+    return Array.from(this.images.values()).find((image) => image.storageKey === key);
+  }
+
+  async getImageBySha256(sha256: string): Promise<GeneratedImage | undefined> {
+    return Array.from(this.images.values()).find((image) => image.sha256 === sha256);
+  }
+
+  async searchImages(search: ImageSearch): Promise<ImagePage> {
+    const cursor = decodeCursor(search.cursor);
+    const query = search.q?.toLowerCase();
+    const rows = Array.from(this.images.values())
+      .filter((image) => image.chosen && image.approvalStatus === "approved")
+      .filter((image) => !query || image.prompt.toLowerCase().includes(query))
+      .filter((image) => !search.model || image.modelUsed === search.model)
+      .filter((image) => !search.from || image.generatedAt >= search.from)
+      .filter((image) => !search.to || image.generatedAt <= search.to)
+      .filter((image) => {
+        if (!cursor) return true;
+        const time = image.generatedAt.getTime();
+        const cursorTime = cursor.generatedAt.getTime();
+        return time < cursorTime || (time === cursorTime && image.id < cursor.id);
+      })
+      .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime() || b.id.localeCompare(a.id))
+      .slice(0, search.limit + 1);
+    return toImagePage(rows, search.limit);
+  }
+
+  async getImageModels(): Promise<string[]> {
+    const models = Array.from(this.images.values())
+      .filter((image) => image.chosen && image.approvalStatus === "approved")
+      .map((image) => image.modelUsed);
+    return Array.from(new Set(models)).sort();
+  }
+
   async getImageCount(): Promise<number> {
     return this.images.size;
   }
+
+  async getImagesByBatch(batchId: string): Promise<GeneratedImage[]> {
+    return Array.from(this.images.values())
+      .filter((image) => image.batchId === batchId)
+      .sort((a, b) => a.storageKey.localeCompare(b.storageKey));
+  }
+
+  async updateImage(id: string, updates: Partial<InsertImage>): Promise<GeneratedImage | undefined> {
+    const image = this.images.get(id);
+    if (!image) return undefined;
+    const updated: GeneratedImage = { ...image, ...updates, id };
+    this.images.set(id, updated);
+    return updated;
+  }
+
+  async deleteImage(id: string): Promise<boolean> {
+    for (const variant of await this.getImageVariants(id)) {
+      this.variants.delete(variant.id);
+    }
+    for (const token of await this.getShareTokens(id)) {
+      this.shareTokens.delete(token.id);
+    }
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.imageId === id) this.jobs.set(job.id, { ...job, imageId: null });
+    }
+    return this.images.delete(id);
+  }
+
+  async saveImageVariant(insertVariant: InsertImageVariant): Promise<ImageVariant> {
+    const existing = await this.getImageVariant(insertVariant.imageId, insertVariant.variant);
+    const variant: ImageVariant = {
+      ...insertVariant,
+      id: existing?.id ?? randomUUID(),
+      createdAt: new Date(),
+    };
+    this.variants.set(variant.id, variant);
+    return variant;
+  }
+
+  async getImageVariant(imageId: string, name: ImageVariantName): Promise<ImageVariant | undefined> {
+    return Array.from(this.variants.values()).find(
+      (variant) => variant.imageId === imageId && variant.variant === name,
+    );
+  }
+
+  async getImageVariants(imageId: string): Promise<ImageVariant[]> {
+    return Array.from(this.variants.values()).filter((variant) => variant.imageId === imageId);
+  }
+
+  async getImagesByApproval(status: ApprovalStatus, limit: number = 50): Promise<GeneratedImage[]> {
+    // The pending queue is worked oldest first; everything else newest first
+    const direction = status === "pending" ? 1 : -1;
+    return Array.from(this.images.values())
+      .filter((image) => image.chosen && image.approvalStatus === status)
+      .sort((a, b) => direction * (a.generatedAt.getTime() - b.generatedAt.getTime()))
+      .slice(0, limit);
+  }
+
+  async recordModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const id = randomUUID();
+    const action: ModerationAction = {
+      id,
+      imageId: insertAction.imageId,
+      action: insertAction.action,
+      operator: insertAction.operator,
+      note: insertAction.note ?? null,
+      createdAt: new Date(),
+    };
+    this.moderationActions.set(id, action);
+    return action;
+  }
+
+  async getModerationActions(imageId: string): Promise<ModerationAction[]> {
+    return Array.from(this.moderationActions.values())
+      .filter((action) => action.imageId === imageId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createShareToken(insertToken: InsertShareToken): Promise<ShareToken> {
+    const id = randomUUID();
+    const token: ShareToken = {
+      id,
+      token: insertToken.token,
+      imageId: insertToken.imageId,
+      createdAt: new Date(),
+      expiresAt: insertToken.expiresAt,
+      revokedAt: insertToken.revokedAt ?? null,
+      revokedBy: insertToken.revokedBy ?? null,
+    };
+    this.shareTokens.set(id, token);
+    return token;
+  }
+
+  async getShareToken(token: string): Promise<ShareToken | undefined> {
+    return Array.from(this.shareTokens.values()).find((candidate) => candidate.token === token);
+  }
+
+  async getShareTokens(imageId: string): Promise<ShareToken[]> {
+    return Array.from(this.shareTokens.values())
+      .filter((token) => token.imageId === imageId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async revokeShareToken(id: string, operator: string): Promise<ShareToken | undefined> {
+    const token = this.shareTokens.get(id);
+    if (!token) return undefined;
+    if (!token.revokedAt) {
+      token.revokedAt = new Date();
+      token.revokedBy = operator;
+    }
+    return token;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const id = randomUUID();
+    const key: ApiKey = {
+      id,
+      name: insertKey.name,
+      prefix: insertKey.prefix,
+      keyHash: insertKey.keyHash,
+      scopes: insertKey.scopes,
+      rateLimit: insertKey.rateLimit ?? 60,
+      requestCount: insertKey.requestCount ?? 0,
+      imageCount: insertKey.imageCount ?? 0,
+      lastUsedAt: insertKey.lastUsedAt ?? null,
+      createdBy: insertKey.createdBy ?? null,
+      createdAt: new Date(),
+      revokedAt: insertKey.revokedAt ?? null,
+      revokedBy: insertKey.revokedBy ?? null,
+    };
+    this.apiKeys.set(id, key);
+    return key;
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find((key) => key.keyHash === keyHash);
+  }
+
+  async revokeApiKey(id: string, operator: string): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key) return undefined;
+    if (!key.revokedAt) {
+      key.revokedAt = new Date();
+      key.revokedBy = operator;
+    }
+    return key;
+  }
+
+  async recordApiKeyUsage(id: string, usage: { requests?: number; images?: number }): Promise<void> {
+    const key = this.apiKeys.get(id);
+    if (!key) return;
+    key.requestCount += usage.requests ?? 0;
+    key.imageCount += usage.images ?? 0;
+    if (usage.requests) key.lastUsedAt = new Date();
+  }
+
+  async saveReferenceImage(insertReference: InsertReferenceImage): Promise<ReferenceImage> {
+    const id = randomUUID();
+    const reference: ReferenceImage = {
+      ...insertReference,
+      id,
+      kind: insertReference.kind || "image",
+      uploadedAt: new Date(),
+    };
+    this.references.set(id, reference);
+    return reference;
+  }
+
+  async getReferenceImage(id: string): Promise<ReferenceImage | undefined> {
+    return this.references.get(id);
+  }
+
+  async getStyles(includeInactive: boolean = false): Promise<Style[]> {
+    return Array.from(this.styles.values())
+      .filter((style) => includeInactive || style.active)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getStyle(id: string): Promise<Style | undefined> {
+    return this.styles.get(id);
+  }
+
+  async createStyle(insertStyle: InsertStyle): Promise<Style> {
+    if (Array.from(this.styles.values()).some((style) => style.name === insertStyle.name)) {
+      throw new DuplicateStyleNameError(insertStyle.name);
+    }
+    const id = randomUUID();
+    const style: Style = {
+      id,
+      name: insertStyle.name,
+      description: insertStyle.description ?? null,
+      weights: insertStyle.weights,
+      triggerWord: insertStyle.triggerWord ?? null,
+      loraScale: insertStyle.loraScale ?? 1,
+      extraLora: insertStyle.extraLora ?? null,
+      extraLoraScale: insertStyle.extraLoraScale ?? 1,
+      exampleImageUrl: insertStyle.exampleImageUrl ?? null,
+      active: insertStyle.active ?? true,
+      createdAt: new Date(),
+    };
+    this.styles.set(id, style);
+    return style;
+  }
+
+  async updateStyle(id: string, updates: UpdateStyle): Promise<Style | undefined> {
+    const style = this.styles.get(id);
+    if (!style) return undefined;
+    const name = updates.name;
+    if (name !== undefined && Array.from(this.styles.values()).some((other) => other.id !== id && other.name === name)) {
+      throw new DuplicateStyleNameError(name);
+    }
+    const updated: Style = { ...style, ...updates, id };
+    this.styles.set(id, updated);
+    return updated;
+  }
+
+  async deleteStyle(id: string): Promise<boolean> {
+    for (const image of Array.from(this.images.values())) {
+      if (image.styleId === id) {
+        this.images.set(image.id, { ...image, styleId: null });
+      }
+    }
+    return this.styles.delete(id);
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    return this.settings.get(key) as T | undefined;
+  }
+
+  async putSetting<T>(key: string, value: T): Promise<void> {
+    this.settings.set(key, value);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<GenerationJob> {
+    const id = randomUUID();
+    const job: GenerationJob = {
+      id,
+      request: insertJob.request,
+      status: insertJob.status || "queued",
+      imageId: insertJob.imageId ?? null,
+      apiKeyId: insertJob.apiKeyId ?? null,
+      kioskId: insertJob.kioskId ?? null,
+      error: insertJob.error ?? null,
+      predictSeconds: insertJob.predictSeconds ?? null,
+      estimatedCost: insertJob.estimatedCost ?? null,
+      createdAt: new Date(),
+      startedAt: insertJob.startedAt ?? null,
+      completedAt: insertJob.completedAt ?? null,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<GenerationJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated: GenerationJob = { ...job, ...updates, id };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async getJobsByStatus(status: JobStatus): Promise<GenerationJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSpend(from?: Date, to?: Date): Promise<number> {
+    return (await this.getJobCosts(from, to)).reduce((total, job) => total + job.estimatedCost, 0);
+  }
+
+  async getJobCosts(from?: Date, to?: Date): Promise<JobCost[]> {
+    return Array.from(this.jobs.values())
+      .filter((job): job is GenerationJob & { estimatedCost: number } =>
+        job.estimatedCost !== null &&
+        (!from || job.createdAt >= from) &&
+        (!to || job.createdAt < to))
+      .map(({ createdAt, kioskId, apiKeyId, estimatedCost }) => ({ createdAt, kioskId, apiKeyId, estimatedCost }));
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async saveGeneratedImage(insertImage: InsertImage): Promise<GeneratedImage> {
+    const [image] = await this.db.insert(generatedImages).values(insertImage).returning();
+    return image;
+  }
+
+  async getRecentImages(limit: number = 12, approvedOnly: boolean = false): Promise<GeneratedImage[]> {
+    return this.db
+      .select()
+      .from(generatedImages)
+      .where(
+        and(
+          eq(generatedImages.chosen, true),
+          approvedOnly ? eq(generatedImages.approvalStatus, "approved") : undefined,
+        ),
+      )
+      .orderBy(desc(generatedImages.generatedAt))
+      .limit(limit);
+  }
+
+  async getImageById(id: string): Promise<GeneratedImage | undefined> {
+    const [image] = await this.db.select().from(generatedImages).where(eq(generatedImages.id, id));
+    return image;
+  }
+
+  async getImageByStorageKey(key: string): Promise<GeneratedImage | undefined> {
+    const [image] = await this.db.select().from(generatedImages).where(eq(generatedImages.storageKey, key));
+    return image;
+  }
+
+  async getImageBySha256(sha256: string): Promise<GeneratedImage | undefined> {
+    const [image] = await this.db.select().from(generatedImages).where(eq(generatedImages.sha256, sha256));
+    return image;
+  }
+
+  async searchImages(search: ImageSearch): Promise<ImagePage> {
+    const cursor = decodeCursor(search.cursor);
+    const rows = await this.db
+      .select()
+      .from(generatedImages)
+      .where(
+        and(
+          eq(generatedImages.chosen, true),
+          eq(generatedImages.approvalStatus, "approved"),
+          // Matches the prompt search index in the schema
+          search.q
+            ? sql`to_tsvector('english', ${generatedImages.prompt}) @@ websearch_to_tsquery('english', ${search.q})`
+            : undefined,
+          search.model ? eq(generatedImages.modelUsed, search.model) : undefined,
+          search.from ? gte(generatedImages.generatedAt, search.from) : undefined,
+          search.to ? lte(generatedImages.generatedAt, search.to) : undefined,
+          cursor
+            ? or(
+                lt(generatedImages.generatedAt, cursor.generatedAt),
+                and(eq(generatedImages.generatedAt, cursor.generatedAt), lt(generatedImages.id, cursor.id)),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(generatedImages.generatedAt), desc(generatedImages.id))
+      .limit(search.limit + 1);
+    return toImagePage(rows, search.limit);
+  }
+
+  async getImageModels(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ modelUsed: generatedImages.modelUsed })
+      .from(generatedImages)
+      .where(and(eq(generatedImages.chosen, true), eq(generatedImages.approvalStatus, "approved")))
+      .orderBy(asc(generatedImages.modelUsed));
+    return rows.map((row) => row.modelUsed);
+  }
+
+  async getImageCount(): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(generatedImages);
+    return result.value;
+  }
+
+  async getImagesByBatch(batchId: string): Promise<GeneratedImage[]> {
+    return this.db
+      .select()
+      .from(generatedImages)
+      .where(eq(generatedImages.batchId, batchId))
+      .orderBy(asc(generatedImages.storageKey));
+  }
+
+  async updateImage(id: string, updates: Partial<InsertImage>): Promise<GeneratedImage | undefined> {
+    const [image] = await this.db
+      .update(generatedImages)
+      .set(updates)
+      .where(eq(generatedImages.id, id))
+      .returning();
+    return image;
+  }
+
+  async deleteImage(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(generatedImages)
+      .where(eq(generatedImages.id, id))
+      .returning({ id: generatedImages.id });
+    return deleted.length > 0;
+  }
+
+  async saveImageVariant(insertVariant: InsertImageVariant): Promise<ImageVariant> {
+    const [variant] = await this.db
+      .insert(imageVariants)
+      .values(insertVariant)
+      .onConflictDoUpdate({
+        target: [imageVariants.imageId, imageVariants.variant],
+        set: { ...insertVariant, createdAt: new Date() },
+      })
+      .returning();
+    return variant;
+  }
+
+  async getImageVariant(imageId: string, name: ImageVariantName): Promise<ImageVariant | undefined> {
+    const [variant] = await this.db
+      .select()
+      .from(imageVariants)
+      .where(and(eq(imageVariants.imageId, imageId), eq(imageVariants.variant, name)));
+    return variant;
+  }
+
+  async getImageVariants(imageId: string): Promise<ImageVariant[]> {
+    return this.db.select().from(imageVariants).where(eq(imageVariants.imageId, imageId));
+  }
+
+  async getImagesByApproval(status: ApprovalStatus, limit: number = 50): Promise<GeneratedImage[]> {
+    return this.db
+      .select()
+      .from(generatedImages)
+      .where(and(eq(generatedImages.chosen, true), eq(generatedImages.approvalStatus, status)))
+      .orderBy(status === "pending" ? asc(generatedImages.generatedAt) : desc(generatedImages.generatedAt))
+      .limit(limit);
+  }
+
+  async recordModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const [action] = await this.db.insert(moderationActions).values(insertAction).returning();
+    return action;
+  }
+
+  async getModerationActions(imageId: string): Promise<ModerationAction[]> {
+    return this.db
+      .select()
+      .from(moderationActions)
+      .where(eq(moderationActions.imageId, imageId))
+      .orderBy(asc(moderationActions.createdAt));
+  }
+
+  async createShareToken(insertToken: InsertShareToken): Promise<ShareToken> {
+    const [token] = await this.db.insert(shareTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getShareToken(token: string): Promise<ShareToken | undefined> {
+    const [row] = await this.db.select().from(shareTokens).where(eq(shareTokens.token, token));
+    return row;
+  }
+
+  async getShareTokens(imageId: string): Promise<ShareToken[]> {
+    return this.db
+      .select()
+      .from(shareTokens)
+      .where(eq(shareTokens.imageId, imageId))
+      .orderBy(desc(shareTokens.createdAt));
+  }
+
+  async revokeShareToken(id: string, operator: string): Promise<ShareToken | undefined> {
+    await this.db
+      .update(shareTokens)
+      .set({ revokedAt: new Date(), revokedBy: operator })
+      .where(and(eq(shareTokens.id, id), isNull(shareTokens.revokedAt)));
+    const [token] = await this.db.select().from(shareTokens).where(eq(shareTokens.id, id));
+    return token;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const [key] = await this.db.insert(apiKeys).values(insertKey).returning();
+    return key;
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return this.db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async revokeApiKey(id: string, operator: string): Promise<ApiKey | undefined> {
+    await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), revokedBy: operator })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)));
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return key;
+  }
+
+  async recordApiKeyUsage(id: string, usage: { requests?: number; images?: number }): Promise<void> {
+    // Increments in SQL so concurrent requests don't lose counts
+    await this.db
+      .update(apiKeys)
+      .set({
+        requestCount: sql`${apiKeys.requestCount} + ${usage.requests ?? 0}`,
+        imageCount: sql`${apiKeys.imageCount} + ${usage.images ?? 0}`,
+        ...(usage.requests ? { lastUsedAt: new Date() } : {}),
+      })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async saveReferenceImage(insertReference: InsertReferenceImage): Promise<ReferenceImage> {
+    const [reference] = await this.db.insert(referenceImages).values(insertReference).returning();
+    return reference;
+  }
+
+  async getReferenceImage(id: string): Promise<ReferenceImage | undefined> {
+    const [reference] = await this.db.select().from(referenceImages).where(eq(referenceImages.id, id));
+    return reference;
+  }
+
+  async getStyles(includeInactive: boolean = false): Promise<Style[]> {
+    return this.db
+      .select()
+      .from(styles)
+      .where(includeInactive ? undefined : eq(styles.active, true))
+      .orderBy(asc(styles.name));
+  }
+
+  async getStyle(id: string): Promise<Style | undefined> {
+    const [style] = await this.db.select().from(styles).where(eq(styles.id, id));
+    return style;
+  }
+
+  async createStyle(insertStyle: InsertStyle): Promise<Style> {
+    try {
+      const [style] = await this.db.insert(styles).values(insertStyle).returning();
+      return style;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateStyleNameError(insertStyle.name);
+      throw error;
+    }
+  }
+
+  async updateStyle(id: string, updates: UpdateStyle): Promise<Style | undefined> {
+    try {
+      const [style] = await this.db.update(styles).set(updates).where(eq(styles.id, id)).returning();
+      return style;
+    } catch (error) {
+      if (isUniqueViolation(error) && updates.name !== undefined) throw new DuplicateStyleNameError(updates.name);
+      throw error;
+    }
+  }
+
+  async deleteStyle(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(styles).where(eq(styles.id, id)).returning({ id: styles.id });
+    return deleted.length > 0;
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await this.db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value as T | undefined;
+  }
+
+  async putSetting<T>(key: string, value: T): Promise<void> {
+    await this.db
+      .insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedAt: new Date() },
+      });
+  }
+
+  async createJob(insertJob: InsertJob): Promise<GenerationJob> {
+    const [job] = await this.db.insert(generationJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await this.db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<GenerationJob | undefined> {
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ ...updates, id: undefined })
+      .where(eq(generationJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getJobsByStatus(status: JobStatus): Promise<GenerationJob[]> {
+    return this.db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.status, status))
+      .orderBy(asc(generationJobs.createdAt));
+  }
+
+  async getSpend(from?: Date, to?: Date): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<string | null>`sum(${generationJobs.estimatedCost})` })
+      .from(generationJobs)
+      .where(costedJobsIn(from, to));
+    return Number(row?.total ?? 0);
+  }
+
+  async getJobCosts(from?: Date, to?: Date): Promise<JobCost[]> {
+    const rows = await this.db
+      .select({
+        createdAt: generationJobs.createdAt,
+        kioskId: generationJobs.kioskId,
+        apiKeyId: generationJobs.apiKeyId,
+        estimatedCost: generationJobs.estimatedCost,
+      })
+      .from(generationJobs)
+      .where(costedJobsIn(from, to));
+    return rows.map((row) => ({ ...row, estimatedCost: row.estimatedCost ?? 0 }));
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when DATABASE_URL is set, otherwise keep everything in memory
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TokenBucketLimiter } from "./token-bucket";
+
+// 6 a minute is one token every 10 seconds
+const LIMIT = { perMinute: 6, burst: 3 };
+
+function fakeClock() {
+  let now = 1_000_000;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("TokenBucketLimiter", () => {
+  it("allows a burst, then refuses", () => {
+    const limiter = new TokenBucketLimiter(fakeClock().now);
+    assert.deepEqual([1, 2, 3].map(() => limiter.take("a", LIMIT)), [0, 0, 0]);
+    assert.ok(limiter.take("a", LIMIT) > 0);
+  });
+
+  it("keeps clients apart", () => {
+    const limiter = new TokenBucketLimiter(fakeClock().now);
+    for (let i = 0; i < 3; i++) limiter.take("a", LIMIT);
+    assert.equal(limiter.take("b", LIMIT), 0);
+  });
+
+  it("tells the client when the next token arrives", () => {
+    const clock = fakeClock();
+    const limiter = new TokenBucketLimiter(clock.now);
+    for (let i = 0; i < 3; i++) limiter.take("a", LIMIT);
+    assert.equal(limiter.take("a", LIMIT), 10);
+    clock.advance(4_000);
+    assert.equal(limiter.take("a", LIMIT), 6);
+    clock.advance(5_500);
+    assert.equal(limiter.take("a", LIMIT), 1);
+  });
+
+  it("refills over time", () => {
+    const clock = fakeClock();
+    const limiter = new TokenBucketLimiter(clock.now);
+    for (let i = 0; i < 3; i++) limiter.take("a", LIMIT);
+    clock.advance(10_000);
+    assert.equal(limiter.take("a", LIMIT), 0);
+    assert.ok(limiter.take("a", LIMIT) > 0);
+  });
+
+  it("refills no further than the burst", () => {
+    const clock = fakeClock();
+    const limiter = new TokenBucketLimiter(clock.now);
+    limiter.take("a", LIMIT);
+    clock.advance(60 * 60_000);
+    assert.deepEqual([1, 2, 3].map(() => limiter.take("a", LIMIT)), [0, 0, 0]);
+    assert.equal(limiter.take("a", LIMIT), 10);
+  });
+});
@@ -0,0 +1,44 @@
+import type { RateLimit } from "./config";
+
+export type Clock = () => number;
+
+type Bucket = { tokens: number; updatedAt: number; fullAt: number };
+
+// Buckets are pruned once there are this many, dropping the ones that have
+// refilled completely (a full bucket behaves exactly like a missing one)
+const PRUNE_THRESHOLD = 1000;
+
+// Token buckets by client key. The clock is injectable so behaviour over
+// time can be checked without waiting.
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly now: Clock = Date.now) {}
+
+  // Takes a token from the client's bucket. Returns 0 when the request may
+  // go ahead, otherwise the whole seconds until a token will be available.
+  take(key: string, limit: NonNullable<RateLimit>): number {
+    const now = this.now();
+    const refillPerMs = limit.perMinute / 60_000;
+    if (this.buckets.size >= PRUNE_THRESHOLD) this.prune(now);
+
+    const previous = this.buckets.get(key);
+    const elapsed = previous ? now - previous.updatedAt : 0;
+    let tokens = Math.min(limit.burst, (previous?.tokens ?? limit.burst) + elapsed * refillPerMs);
+
+    let retryAfter = 0;
+    if (tokens >= 1) {
+      tokens -= 1;
+    } else {
+      retryAfter = Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000));
+    }
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + (limit.burst - tokens) / refillPerMs });
+    return retryAfter;
+  }
+
+  private prune(now: number) {
+    for (const [key, bucket] of Array.from(this.buckets)) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import path from "path";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { config } from "./config";
+import { blobStore, readBlob } from "./blob-store";
+import type { GeneratedImage, ImageVariant, ImageVariantName } from "@shared/schema";
+
+// Display variants live apart from the originals, which are never rewritten
+export const VARIANTS_PREFIX = "image_variants";
+
+type VariantSpec = {
+  format: "webp" | "avif";
+  mimeType: string;
+  width: number;
+  // With a height the image is cropped to fill the box; without one it keeps
+  // its aspect ratio
+  height?: number;
+  quality: number;
+};
+
+// Variant registry: every derived size/format the image route can serve
+export const VARIANT_SPECS: Record<ImageVariantName, VariantSpec> = {
+  thumb: { format: "webp", mimeType: "image/webp", width: 384, quality: 75 },
+  web: { format: "webp", mimeType: "image/webp", width: 1024, quality: 82 },
+  "web-avif": { format: "avif", mimeType: "image/avif", width: 1024, quality: 55 },
+  wall: {
+    format: "webp",
+    mimeType: "image/webp",
+    width: config.wall.width,
+    height: config.wall.height,
+    quality: 90,
+  },
+};
+
+export function variantKey(image: GeneratedImage, name: ImageVariantName): string {
+  const base = path.posix.basename(image.storageKey, path.posix.extname(image.storageKey));
+  return `${VARIANTS_PREFIX}/${base}.${name}.${VARIANT_SPECS[name].format}`;
+}
+
+async function renderVariant(image: GeneratedImage, name: ImageVariantName): Promise<ImageVariant> {
+  const spec = VARIANT_SPECS[name];
+  const key = variantKey(image, name);
+
+  let pipeline = sharp(await readBlob(image.storageKey)).resize({
+    width: spec.width,
+    height: spec.height,
+    fit: spec.height ? "cover" : "inside",
+    withoutEnlargement: !spec.height,
+  });
+  // AVIF at default effort is too slow for kiosk hardware
+  pipeline = spec.format === "avif"
+    ? pipeline.avif({ quality: spec.quality, effort: 2 })
+    : pipeline.webp({ quality: spec.quality });
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+  await blobStore.put(key, data, spec.mimeType);
+
+  return storage.saveImageVariant({
+    imageId: image.id,
+    variant: name,
+    mimeType: spec.mimeType,
+    width: info.width,
+    height: info.height,
+    storageKey: key,
+    fileSize: info.size,
+  });
+}
+
+// Concurrent requests for the same missing variant share one render
+const rendering = new Map<string, Promise<ImageVariant>>();
+
+// Returns a variant, rendering it first if it was never made (images from
+// before the pipeline) or its blob has gone missing
+export async function getOrCreateVariant(image: GeneratedImage, name: ImageVariantName): Promise<ImageVariant> {
+  const existing = await storage.getImageVariant(image.id, name);
+  if (existing && await blobStore.head(existing.storageKey)) {
+    return existing;
+  }
+
+  const key = `${image.id}:${name}`;
+  let pending = rendering.get(key);
+  if (!pending) {
+    pending = renderVariant(image, name).finally(() => rendering.delete(key));
+    rendering.set(key, pending);
+  }
+  return pending;
+}
+
+// Renders every registered variant for a freshly saved image. Failures are
+// logged rather than thrown; the route renders missing variants on demand.
+export async function createVariants(image: GeneratedImage): Promise<void> {
+  for (const name of Object.keys(VARIANT_SPECS) as ImageVariantName[]) {
+    try {
+      await getOrCreateVariant(image, name);
+    } catch (error) {
+      console.error(`Failed to create ${name} variant for ${image.id}:`, error);
+    }
+  }
+}
+
+export async function removeVariants(image: GeneratedImage): Promise<void> {
+  for (const variant of await storage.getImageVariants(image.id)) {
+    await blobStore.delete(variant.storageKey);
+  }
+}
@@ -0,0 +1,160 @@
+import sharp from "sharp";
+import { storage } from "./storage";
+import { config } from "./config";
+import { blobStore, readBlob } from "./blob-store";
+import { watermarkSettingsSchema, type GeneratedImage, type WatermarkSettings } from "@shared/schema";
+
+const SETTING_KEY = "watermark";
+
+// Uploaded logos live apart from images so blob migration can copy them too
+export const BRANDING_PREFIX = "branding";
+
+const LOGO_TYPES: Record<string, string> = {
+  "image/svg+xml": ".svg",
+  "image/png": ".png",
+};
+
+export function isLogoType(mimeType: string): boolean {
+  return mimeType in LOGO_TYPES;
+}
+
+export class InvalidWatermarkLogoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidWatermarkLogoError";
+  }
+}
+
+let cachedSettings: WatermarkSettings | undefined;
+
+export async function getWatermarkSettings(): Promise<WatermarkSettings> {
+  if (!cachedSettings) {
+    const stored = await storage.getSetting<WatermarkSettings>(SETTING_KEY);
+    const parsed = watermarkSettingsSchema.safeParse(stored);
+    cachedSettings = parsed.success ? parsed.data : config.watermark;
+  }
+  return cachedSettings;
+}
+
+export async function updateWatermarkSettings(updates: Partial<WatermarkSettings>): Promise<WatermarkSettings> {
+  const settings = watermarkSettingsSchema.parse({ ...(await getWatermarkSettings()), ...updates });
+  await storage.putSetting(SETTING_KEY, settings);
+  cachedSettings = settings;
+  return settings;
+}
+
+// Stores a new logo under a fresh key and removes the one it replaces
+export async function saveWatermarkLogo(data: Buffer, mimeType: string): Promise<WatermarkSettings> {
+  try {
+    await sharp(data).metadata();
+  } catch {
+    throw new InvalidWatermarkLogoError("Logo must be a valid SVG or PNG image");
+  }
+
+  const previous = (await getWatermarkSettings()).logoKey;
+  const key = `${BRANDING_PREFIX}/watermark-logo-${Date.now()}${LOGO_TYPES[mimeType]}`;
+  await blobStore.put(key, data, mimeType);
+  const settings = await updateWatermarkSettings({ logoKey: key });
+  if (previous) await blobStore.delete(previous);
+  return settings;
+}
+
+export async function removeWatermarkLogo(): Promise<WatermarkSettings> {
+  const previous = (await getWatermarkSettings()).logoKey;
+  const settings = await updateWatermarkSettings({ logoKey: null });
+  if (previous) await blobStore.delete(previous);
+  return settings;
+}
+
+// Whether the watermark would change an image at all
+export function isWatermarkActive(settings: WatermarkSettings): boolean {
+  return settings.enabled && (!!settings.logoKey || settings.text.trim().length > 0);
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Builds the logo and text as one SVG laid out for an image of this size,
+// with where it goes on the image
+async function renderOverlay(
+  width: number,
+  height: number,
+  settings: WatermarkSettings,
+): Promise<{ input: Buffer; top: number; left: number }> {
+  const margin = Math.round(width * settings.margin);
+  const boxWidth = width - margin * 2;
+  const text = settings.text.trim();
+
+  let logo: { data: string; width: number; height: number } | undefined;
+  if (settings.logoKey) {
+    // Rasterized at the target size so SVG logos stay sharp
+    const { data, info } = await sharp(await readBlob(settings.logoKey), { density: 300 })
+      .resize({ width: Math.round(width * settings.logoWidth), height: Math.round(height / 2), fit: "inside" })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    logo = { data: data.toString("base64"), width: info.width, height: info.height };
+  }
+
+  const fontSize = Math.max(12, Math.round(width * 0.03));
+  const gap = logo && text ? Math.round(fontSize / 2) : 0;
+  const boxHeight = (logo?.height ?? 0) + gap + (text ? Math.round(fontSize * 1.3) : 0);
+
+  const align = settings.position.endsWith("left") ? "start" : settings.position.endsWith("right") ? "end" : "middle";
+  const logoX = align === "start" ? 0 : align === "end" ? boxWidth - (logo?.width ?? 0) : (boxWidth - (logo?.width ?? 0)) / 2;
+  const textX = align === "start" ? 0 : align === "end" ? boxWidth : boxWidth / 2;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${boxWidth}" height="${boxHeight}">
+  <g opacity="${settings.opacity}">
+    ${logo ? `<image href="data:image/png;base64,${logo.data}" x="${logoX}" y="0" width="${logo.width}" height="${logo.height}"/>` : ""}
+    ${text ? `<text x="${textX}" y="${(logo?.height ?? 0) + gap + fontSize}" font-family="sans-serif" font-size="${fontSize}" font-weight="700" fill="#fff" stroke="#000" stroke-opacity="0.4" stroke-width="${Math.max(1, fontSize / 12)}" paint-order="stroke" text-anchor="${align}">${escapeText(text)}</text>` : ""}
+  </g>
+</svg>`;
+
+  const top = settings.position.startsWith("top")
+    ? margin
+    : settings.position.startsWith("bottom")
+      ? height - margin - boxHeight
+      : Math.round((height - boxHeight) / 2);
+  return { input: Buffer.from(svg), top: Math.max(0, top), left: margin };
+}
+
+export type WatermarkOutput = {
+  // Downscales wider images to this width first
+  width?: number;
+  // Defaults to the source format
+  format?: "png" | "jpeg" | "webp";
+  quality?: number;
+};
+
+// Composites the watermark onto an image in a single encode. With the
+// watermark off (or empty) the image is only resized/converted as asked.
+export async function applyWatermark(
+  image: Buffer,
+  output: WatermarkOutput = {},
+  settings?: WatermarkSettings,
+): Promise<Buffer> {
+  const active = settings ?? await getWatermarkSettings();
+  const source = await sharp(image).metadata();
+  const format = output.format ?? (source.format === "jpeg" || source.format === "webp" ? source.format : "png");
+  const quality = output.quality ?? 92;
+
+  const scale = output.width && source.width > output.width ? output.width / source.width : 1;
+  const width = Math.round(source.width * scale);
+  const height = Math.round(source.height * scale);
+
+  let pipeline = sharp(image);
+  if (scale < 1) pipeline = pipeline.resize({ width, height });
+  if (isWatermarkActive(active)) {
+    pipeline = pipeline.composite([await renderOverlay(width, height, active)]);
+  }
+  return pipeline.toFormat(format, format === "png" ? {} : { quality }).toBuffer();
+}
+
+// Social-friendly copy of an image for share links
+export const SHARE_OUTPUT: WatermarkOutput = { width: 1080, format: "jpeg", quality: 88 };
+
+export async function renderShareImage(image: GeneratedImage): Promise<Buffer> {
+  return applyWatermark(await readBlob(image.storageKey), SHARE_OUTPUT);
+}
+
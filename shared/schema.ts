@@ -1,41 +1,497 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, json, jsonb, boolean, real, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Visitors may only generate; kiosks run as an anonymous visitor
+export const userRoles = ["visitor", "operator", "admin"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const permissions = ["generate", "moderate", "delete", "settings", "analytics"] as const;
+export type Permission = (typeof permissions)[number];
+
+// What each role may do, checked by the server's route guards and used by
+// the client to hide screens a user can't use
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  visitor: ["generate"],
+  operator: ["generate", "moderate", "analytics"],
+  admin: permissions,
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  // scrypt hash (see server/passwords.ts); never the password itself
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("operator"),
+});
+
+// Login sessions, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Scopes a partner API key can hold, and what each grants in terms of the
+// permissions above
+export const apiKeyScopes = ["generate", "read", "admin"] as const;
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+export const apiKeyScopePermissions: Record<ApiKeyScope, readonly Permission[]> = {
+  generate: ["generate"],
+  read: ["analytics"],
+  admin: permissions,
+};
+
+// Bearer keys for scripted generation. Only a hash is stored; the key itself
+// is shown once, when it is minted.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Start of the key, so admins can tell keys apart
+  prefix: text("prefix").notNull(),
+  // Hex SHA-256 of the key
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+  // Requests per minute
+  rateLimit: integer("rate_limit").notNull().default(60),
+  requestCount: integer("request_count").notNull().default(0),
+  imageCount: integer("image_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: text("revoked_by"),
+});
+
+// Visitor uploads used as the base image or inpainting mask for a generation
+export const referenceKinds = ["image", "mask"] as const;
+export type ReferenceKind = (typeof referenceKinds)[number];
+
+export const referenceImages = pgTable("reference_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").$type<ReferenceKind>().notNull().default("image"),
+  storageKey: text("storage_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+});
+
+// Named looks built from LoRA weights, selectable per generation
+export const styles = pgTable("styles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  // Replicate model, HuggingFace/CivitAI URL or .safetensors URL
+  weights: text("weights").notNull(),
+  triggerWord: text("trigger_word"),
+  loraScale: real("lora_scale").notNull().default(1),
+  extraLora: text("extra_lora"),
+  extraLoraScale: real("extra_lora_scale").notNull().default(1),
+  exampleImageUrl: text("example_image_url"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const generatedImages = pgTable("generated_images", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   prompt: text("prompt").notNull(),
   imageUrl: text("image_url").notNull(),
-  localPath: text("local_path").notNull(),
+  // Key in the blob store, e.g. "generated_images/<filename>.png"
+  storageKey: text("storage_key").notNull(),
   fileSize: integer("file_size").notNull(),
+  // Hex SHA-256 of the original bytes, recorded when downloaded
+  sha256: text("sha256"),
   resolution: text("resolution").notNull(),
   modelUsed: text("model_used").notNull().default("stability-ai/sdxl"),
-  generatedAt: timestamp("generated_at").defaultNow().notNull(),
+  // Millisecond precision so gallery cursors round-trip through JS Dates
+  generatedAt: timestamp("generated_at", { precision: 3 }).defaultNow().notNull(),
+  // Provenance, so a specific image can be reproduced later
+  generationParams: jsonb("generation_params").$type<GenerationParams>(),
+  predictionId: text("prediction_id"),
+  durationMs: integer("duration_ms"),
+  status: text("status").notNull().default("succeeded"),
+  // Outputs of one multi-output job share a batch id (the job id); only the
+  // variant the visitor picked is chosen and eligible for display
+  batchId: varchar("batch_id"),
+  chosen: boolean("chosen").notNull().default(true),
+  // Lineage for image-to-image and inpainting: the base was either an
+  // earlier generation or an upload, optionally with an uploaded mask
+  sourceImageId: varchar("source_image_id").references((): AnyPgColumn => generatedImages.id, { onDelete: "set null" }),
+  referenceImageId: varchar("reference_image_id").references(() => referenceImages.id),
+  maskId: varchar("mask_id").references(() => referenceImages.id),
+  styleId: varchar("style_id").references(() => styles.id, { onDelete: "set null" }),
+  // The API key that queued the generation; null for the kiosk and staff
+  apiKeyId: varchar("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+  // Moderation: with moderation enabled new images wait as "pending" until an
+  // operator approves them for the wall and gallery
+  approvalStatus: text("approval_status").$type<ApprovalStatus>().notNull().default("approved"),
+  moderatedBy: text("moderated_by"),
+  moderatedAt: timestamp("moderated_at"),
+}, (table) => [
+  index("generated_images_generated_at_idx").on(table.generatedAt),
+  index("generated_images_storage_key_idx").on(table.storageKey),
+  index("generated_images_sha256_idx").on(table.sha256),
+  index("generated_images_prompt_search_idx").using("gin", sql`to_tsvector('english', ${table.prompt})`),
+]);
+
+// Resized/re-encoded copies of an image for display; the original stays
+// untouched for download
+export const imageVariantNames = ["thumb", "web", "web-avif", "wall"] as const;
+export type ImageVariantName = (typeof imageVariantNames)[number];
+
+export const imageVariants = pgTable("image_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  imageId: varchar("image_id").notNull().references(() => generatedImages.id, { onDelete: "cascade" }),
+  variant: text("variant").$type<ImageVariantName>().notNull(),
+  mimeType: text("mime_type").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  storageKey: text("storage_key").notNull(),
+  fileSize: integer("file_size").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("image_variants_image_variant_idx").on(table.imageId, table.variant),
+]);
+
+export const approvalStatuses = ["pending", "approved", "rejected", "hidden"] as const;
+export type ApprovalStatus = (typeof approvalStatuses)[number];
+
+export const moderationActionTypes = ["approve", "reject", "hide"] as const;
+export type ModerationActionType = (typeof moderationActionTypes)[number];
+
+// Audit trail of every operator decision
+export const moderationActions = pgTable("moderation_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  imageId: varchar("image_id").notNull().references(() => generatedImages.id, { onDelete: "cascade" }),
+  action: text("action").$type<ModerationActionType>().notNull(),
+  operator: text("operator").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Short-lived links that hand an image to a visitor's phone via QR code
+export const shareTokens = pgTable("share_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: text("token").notNull().unique(),
+  imageId: varchar("image_id").notNull().references(() => generatedImages.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: text("revoked_by"),
+}, (table) => [
+  index("share_tokens_image_id_idx").on(table.imageId),
+]);
+
+export const generationModes = ["text", "image", "inpaint"] as const;
+export type GenerationMode = (typeof generationModes)[number];
+
+// Everything that went into producing an image
+export type GenerationParams = {
+  mode: GenerationMode;
+  provider: string;
+  model: string;
+  modelVersion: string;
+  seed: number | null;
+  // Prompt actually sent, after trigger-word injection
+  prompt: string;
+  loraWeights: string | null;
+  extraLora: string | null;
+  aspectRatio: string;
+  numInferenceSteps: number;
+  guidanceScale: number;
+  promptStrength: number;
+  loraScale: number;
+  extraLoraScale: number;
+  outputFormat: string;
+  outputQuality: number;
+  // Exact input sent to the provider
+  input: Record<string, unknown>;
+};
+
+export const jobStatuses = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  request: jsonb("request").$type<GenerateImageRequest>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  // Cleared if an admin deletes the image
+  imageId: varchar("image_id").references(() => generatedImages.id, { onDelete: "set null" }),
+  apiKeyId: varchar("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+  // Kiosk (visitor account username) the job came from
+  kioskId: text("kiosk_id"),
+  error: text("error"),
+  // Provider compute time and what it is estimated to have cost, in USD
+  predictSeconds: real("predict_seconds"),
+  estimatedCost: real("estimated_cost"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("generation_jobs_created_at_idx").on(table.createdAt),
+]);
+
+// Runtime-editable configuration (prompt policy, watermark, ...) by key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles),
+}).pick({
   username: true,
-  password: true,
+  passwordHash: true,
+  role: true,
+});
+
+export const loginRequestSchema = z.object({
+  username: z.string().trim().min(1, "Username is required").max(64),
+  password: z.string().min(1, "Password is required").max(256),
 });
 
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Pick at least one scope"),
+  rateLimit: z.number().int().min(1).max(10000).optional(),
+});
+
+// Lora scales are bounded by the model's input schema
+export const insertStyleSchema = createInsertSchema(styles, {
+  name: (schema) => schema.min(1, "Name is required").max(80),
+  weights: (schema) => schema.min(1, "Weights reference is required"),
+  loraScale: (schema) => schema.min(-1).max(3),
+  extraLoraScale: (schema) => schema.min(-1).max(3),
+  exampleImageUrl: (schema) => schema.url(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateStyleSchema = insertStyleSchema.partial();
+
 export const insertImageSchema = createInsertSchema(generatedImages).omit({
   id: true,
   generatedAt: true,
 });
 
+export const MAX_SEED = 2 ** 32 - 1;
+
 export const generateImageRequestSchema = z.object({
   prompt: z.string().min(1, "Prompt is required").max(500, "Prompt too long"),
+  seed: z.number().int().min(0).max(MAX_SEED).optional(),
+  // Upper bound is the model's; the server also enforces its configured limit
+  numOutputs: z.number().int().min(1).max(4).optional(),
+  // Image-to-image: base on an upload or on an earlier generation
+  referenceImageId: z.string().optional(),
+  sourceImageId: z.string().optional(),
+  // Inpainting mask upload; requires a base image
+  maskId: z.string().optional(),
+  promptStrength: z.number().min(0).max(1).optional(),
+  styleId: z.string().optional(),
+}).refine((request) => !(request.referenceImageId && request.sourceImageId), {
+  message: "Use either a reference upload or a previous image, not both",
+  path: ["sourceImageId"],
+}).refine((request) => !request.maskId || request.referenceImageId || request.sourceImageId, {
+  message: "A mask needs a base image",
+  path: ["maskId"],
+});
+
+// Gallery browsing: newest first, paged with an opaque cursor from the
+// previous page's nextCursor
+export const imageSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  model: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+export const moderationRequestSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+// Re-run a stored image with its seed, optionally with a different prompt
+export const remixImageRequestSchema = z.object({
+  prompt: z.string().min(1, "Prompt is required").max(500, "Prompt too long").optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+// What the client sees of the signed-in user
+export type AuthUser = Pick<User, "id" | "username" | "role">;
 export type GeneratedImage = typeof generatedImages.$inferSelect;
-export type InsertImage = z.infer<typeof insertImageSchema>;
+// What public endpoints show of an image: no staff usernames or API key ids
+export type PublicImage = Omit<GeneratedImage, "moderatedBy" | "apiKeyId">;
+// Inferred from the table rather than the zod schema so jsonb columns keep their $type
+export type InsertImage = Omit<typeof generatedImages.$inferInsert, "id" | "generatedAt">;
 export type GenerateImageRequest = z.infer<typeof generateImageRequestSchema>;
+export type RemixImageRequest = z.infer<typeof remixImageRequestSchema>;
+export type ImageVariant = typeof imageVariants.$inferSelect;
+export type InsertImageVariant = Omit<typeof imageVariants.$inferInsert, "id" | "createdAt">;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type InsertModerationAction = Omit<typeof moderationActions.$inferInsert, "id" | "createdAt">;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = Omit<typeof apiKeys.$inferInsert, "id" | "createdAt">;
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+// What admins see of a key
+export type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+// Returned once when a key is minted; the secret is not stored
+export type CreatedApiKey = { key: ApiKeyInfo; secret: string };
+export type ShareToken = typeof shareTokens.$inferSelect;
+export type InsertShareToken = Omit<typeof shareTokens.$inferInsert, "id" | "createdAt">;
+export type Style = typeof styles.$inferSelect;
+export type InsertStyle = z.infer<typeof insertStyleSchema>;
+export type UpdateStyle = z.infer<typeof updateStyleSchema>;
+export type ReferenceImage = typeof referenceImages.$inferSelect;
+export type InsertReferenceImage = Omit<typeof referenceImages.$inferInsert, "id" | "uploadedAt">;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+// A job as the client that queued it sees it, without what it is attributed to
+export type PublicJob = Omit<GenerationJob, "apiKeyId" | "kioskId">;
+export type InsertJob = typeof generationJobs.$inferInsert;
+
+// Lifecycle stages streamed from GET /api/jobs/:id/events
+export const jobStages = ["queued", "starting", "generating", "downloading", "saved", "failed"] as const;
+export type JobStage = (typeof jobStages)[number];
+
+export type JobProgressEvent = {
+  jobId: string;
+  stage: JobStage;
+  // Fraction of model steps completed (0-1) while generating
+  progress: number | null;
+  // 1-based position while waiting in the queue
+  queuePosition: number | null;
+  message?: string;
+  image?: PublicImage;
+  images?: PublicImage[];
+};
+
+// Shape returned by GET /api/jobs/:id
+export type GenerationJobStatus = PublicJob & {
+  // The chosen image; null until a visitor picks from a multi-output batch
+  image: PublicImage | null;
+  images: PublicImage[];
+};
+
+// Server-side prompt rules. Blocklist entries may use * as a wildcard and
+// are matched after lowercasing and undoing common leetspeak.
+export const promptPolicySchema = z.object({
+  maxWords: z.number().int().min(1).max(200),
+  maxChars: z.number().int().min(1).max(500),
+  blocklist: z.array(z.string().min(1)).max(1000),
+  brandSafetyPhrases: z.array(z.string().min(1)).max(1000),
+});
+
+export type PromptPolicy = z.infer<typeof promptPolicySchema>;
+
+// Spending limits in USD; null means no limit. The event budget counts
+// spend since eventStartsAt (or ever, without it).
+export const budgetSettingsSchema = z.object({
+  costPerSecond: z.number().min(0).max(1),
+  dailyLimit: z.number().positive().nullable(),
+  eventLimit: z.number().positive().nullable(),
+  eventStartsAt: z.string().datetime().nullable(),
+});
+
+export type BudgetSettings = z.infer<typeof budgetSettingsSchema>;
+
+export const spendQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type BudgetStatus = {
+  spentToday: number;
+  spentEvent: number;
+  dailyLimit: number | null;
+  eventLimit: number | null;
+  // Which limit stopped generation, if any
+  exceeded: "daily" | "event" | null;
+};
+
+export type SpendBucket = { cost: number; jobs: number };
+
+// Spend summary for admins, in USD
+export type SpendSummary = {
+  total: number;
+  byDay: (SpendBucket & { day: string })[];
+  byKiosk: (SpendBucket & { kioskId: string | null })[];
+  byApiKey: (SpendBucket & { apiKeyId: string | null; name: string | null })[];
+  budget: BudgetStatus;
+};
+
+export const watermarkPositions = ["top-left", "top-right", "bottom-left", "bottom-right", "center"] as const;
+export type WatermarkPosition = (typeof watermarkPositions)[number];
+
+// Branding composited onto downloads and share images. Sizes are fractions
+// of the image width so one setting suits every output size.
+export const watermarkSettingsSchema = z.object({
+  enabled: z.boolean(),
+  // Blob store key of the uploaded SVG or PNG logo
+  logoKey: z.string().nullable(),
+  position: z.enum(watermarkPositions),
+  opacity: z.number().min(0).max(1),
+  margin: z.number().min(0).max(0.25),
+  logoWidth: z.number().min(0.02).max(1),
+  // Per-event line shown under the logo
+  text: z.string().max(120),
+});
+
+export type WatermarkSettings = z.infer<typeof watermarkSettingsSchema>;
+
+export type PromptViolation = {
+  code: "too_many_words" | "too_long" | "blocked_term" | "brand_safety";
+  message: string;
+  term?: string;
+};
+
+export type ImageSearch = z.infer<typeof imageSearchSchema>;
+
+export type ImagePage<T extends PublicImage = GeneratedImage> = {
+  images: T[];
+  nextCursor: string | null;
+};
+
+// A share token with the absolute URL its QR code encodes
+export type ShareLink = {
+  token: string;
+  url: string;
+  expiresAt: string;
+};
+
+// What the /s/:token page shows
+export type SharedImage = {
+  prompt: string;
+  generatedAt: string;
+  expiresAt: string;
+  imageUrl: string;
+  downloadUrl: string;
+};
+
+// Public kiosk settings returned by GET /api/settings
+export type KioskSettings = {
+  maxOutputs: number;
+  defaultOutputs: number;
+  maxPromptWords: number;
+  maxPromptChars: number;
+  moderationEnabled: boolean;
+  // Generation is paused because a spending budget ran out
+  paused: boolean;
+  wall: {
+    width: number;
+    height: number;
+    idleTimeoutMs: number;
+    attractIntervalMs: number;
+  };
+};